@@ -0,0 +1,168 @@
+// Benchmark baselines for CI: median aggregation over runs, saved baselines
+// and regression checks against them
+
+import type { BenchmarkData, BenchmarkMode, RealtimeStats } from './debugger.js';
+
+export interface BenchmarkBaseline {
+  version: 1;
+  savedAt: string;
+  pixiVersion: string;
+  result: BenchmarkData;
+}
+
+/** Compared metrics; for all of them higher is worse */
+export const BENCHMARK_METRICS = ['frameTime.avg', 'frameTime.p95', 'frameTime.p99', 'drawCalls'] as const;
+
+export type BenchmarkMetric = typeof BENCHMARK_METRICS[number];
+
+export interface MetricDelta {
+  metric: BenchmarkMetric;
+  baseline: number;
+  current: number;
+  delta: number;
+  /** Relative change; null when the baseline is 0 */
+  deltaRatio: number | null;
+  regression: boolean;
+}
+
+export interface BenchmarkComparison {
+  /** Allowed relative increase, e.g. 0.1 for 10% */
+  maxRegression: number;
+  regressed: boolean;
+  metrics: MetricDelta[];
+}
+
+/** Field-wise median of several runs, so a single noisy run cannot fail a build */
+export function aggregateRuns(runs: BenchmarkData[]): BenchmarkData {
+  if (runs.length === 0) {
+    throw new Error('No benchmark runs to aggregate');
+  }
+
+  const mode = modeOf(runs[0]);
+  if (runs.some(r => modeOf(r) !== mode)) {
+    throw new Error('Cannot aggregate loop and realtime benchmark runs');
+  }
+
+  const pick = (read: (run: BenchmarkData) => number) => median(runs.map(read));
+  const result: BenchmarkData = {
+    mode,
+    duration: pick(r => r.duration),
+    frameCount: pick(r => r.frameCount),
+    fps: pick(r => r.fps),
+    frameTime: {
+      avg: pick(r => r.frameTime.avg),
+      min: pick(r => r.frameTime.min),
+      max: pick(r => r.frameTime.max),
+      p50: pick(r => r.frameTime.p50),
+      p95: pick(r => r.frameTime.p95),
+      p99: pick(r => r.frameTime.p99),
+    },
+    drawCalls: pick(r => r.drawCalls ?? 0),
+    runs: runs.length,
+  };
+
+  const realtime = runs.map(r => r.realtime).filter((r): r is RealtimeStats => !!r);
+  if (realtime.length === runs.length) {
+    const pickRealtime = (read: (stats: RealtimeStats) => number) => median(realtime.map(read));
+    const longTasks = realtime.map(r => r.longTasks);
+    const tickers = realtime.map(r => r.split.ticker);
+    result.realtime = {
+      refreshInterval: pickRealtime(r => r.refreshInterval),
+      droppedFrames: pickRealtime(r => r.droppedFrames),
+      longTasks: longTasks.every(t => t !== null) ? {
+        count: median(longTasks.map(t => t!.count)),
+        totalTime: median(longTasks.map(t => t!.totalTime)),
+        max: median(longTasks.map(t => t!.max)),
+      } : null,
+      split: {
+        ticker: tickers.every(t => t !== null) ? median(tickers as number[]) : null,
+        render: pickRealtime(r => r.split.render),
+        idle: pickRealtime(r => r.split.idle),
+      },
+    };
+  }
+
+  return result;
+}
+
+/** Percent threshold, "10%" or "10", as a ratio (0.1) */
+export function parseRegression(value: string): number {
+  const percent = parseFloat(value);
+  if (!/^\s*\d+(\.\d+)?\s*%?\s*$/.test(value) || !Number.isFinite(percent)) {
+    throw new Error(`Invalid regression threshold: ${value}`);
+  }
+  return percent / 100;
+}
+
+export function compareBenchmarks(baseline: BenchmarkData, current: BenchmarkData, maxRegression: number): BenchmarkComparison {
+  if (modeOf(baseline) !== modeOf(current)) {
+    throw new Error(`Baseline was measured in ${modeOf(baseline)} mode, current run in ${modeOf(current)} mode`);
+  }
+
+  const metrics = BENCHMARK_METRICS.map((metric): MetricDelta => {
+    const before = readMetric(baseline, metric);
+    const after = readMetric(current, metric);
+    const deltaRatio = before === 0 ? null : (after - before) / before;
+    return {
+      metric,
+      baseline: before,
+      current: after,
+      delta: round(after - before),
+      deltaRatio: deltaRatio === null ? null : round(deltaRatio),
+      regression: deltaRatio === null ? after > 0 : deltaRatio > maxRegression,
+    };
+  });
+
+  return {
+    maxRegression,
+    regressed: metrics.some(m => m.regression),
+    metrics,
+  };
+}
+
+/** Plain-text table of a comparison, one row per metric */
+export function formatComparison(comparison: BenchmarkComparison): string {
+  const rows = [
+    ['metric', 'baseline', 'current', 'delta', 'change', ''],
+    ...comparison.metrics.map(m => [
+      m.metric,
+      String(m.baseline),
+      String(m.current),
+      (m.delta > 0 ? '+' : '') + m.delta,
+      m.deltaRatio === null ? 'n/a' : (m.deltaRatio > 0 ? '+' : '') + (m.deltaRatio * 100).toFixed(1) + '%',
+      m.regression ? 'REGRESSION' : 'ok',
+    ]),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(r => r[i].length)));
+  const last = widths.length - 1;
+  const lines = rows.map(r => r.map((cell, i) => i === 0 || i === last ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join('  ').trimEnd());
+  lines.splice(1, 0, widths.slice(0, last).map(w => '-'.repeat(w)).join('  '));
+
+  const limit = `${(comparison.maxRegression * 100).toFixed(1)}%`;
+  lines.push('', comparison.regressed ? `FAILED: regression above ${limit}` : `PASSED: all metrics within ${limit}`);
+  return lines.join('\n');
+}
+
+function readMetric(data: BenchmarkData, metric: BenchmarkMetric): number {
+  switch (metric) {
+    case 'frameTime.avg': return data.frameTime.avg;
+    case 'frameTime.p95': return data.frameTime.p95;
+    case 'frameTime.p99': return data.frameTime.p99;
+    case 'drawCalls': return data.drawCalls ?? 0;
+  }
+}
+
+/** Results saved before modes existed are busy-loop runs */
+function modeOf(data: BenchmarkData): BenchmarkMode {
+  return data.mode ?? 'loop';
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
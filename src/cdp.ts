@@ -30,6 +30,7 @@ export interface CDPClient {
       awaitPromise?: boolean;
     }) => Promise<{ result: { value?: unknown; type?: string; description?: string } }>;
     enable: () => Promise<void>;
+    addBinding: (params: { name: string }) => Promise<void>;
   };
   Console: {
     enable: () => Promise<void>;
@@ -40,6 +41,29 @@ export interface CDPClient {
     disable: () => Promise<void>;
     clear: () => Promise<void>;
   };
+  Page: {
+    addScriptToEvaluateOnNewDocument: (params: { source: string }) => Promise<{ identifier: string }>;
+    navigate: (params: { url: string }) => Promise<{ frameId: string; errorText?: string }>;
+    captureScreenshot: (params: {
+      format?: 'png' | 'jpeg' | 'webp';
+      clip?: { x: number; y: number; width: number; height: number; scale: number };
+      captureBeyondViewport?: boolean;
+    }) => Promise<{ data: string }>;
+  };
+  Input: {
+    dispatchMouseEvent: (params: {
+      type: 'mousePressed' | 'mouseReleased' | 'mouseMoved';
+      x: number;
+      y: number;
+      button?: 'none' | 'left' | 'middle' | 'right';
+      buttons?: number;
+      clickCount?: number;
+    }) => Promise<void>;
+    dispatchTouchEvent: (params: {
+      type: 'touchStart' | 'touchEnd' | 'touchMove' | 'touchCancel';
+      touchPoints: Array<{ x: number; y: number }>;
+    }) => Promise<void>;
+  };
   on: (event: string, callback: (params: unknown) => void) => void;
   off: (event: string, callback: (params: unknown) => void) => void;
   close: () => Promise<void>;
@@ -76,3 +100,20 @@ export async function listTargets(options: CDPOptions = {}): Promise<Array<{ id:
   const response = await fetch(`http://${host}:${port}/json`);
   return response.json();
 }
+
+/** Nothing listens on the CDP port; fetch() reports this on the error's cause */
+export function isConnectionRefused(err: unknown): boolean {
+  const error = err as { code?: string; cause?: { code?: string } } | null;
+  return error?.code === 'ECONNREFUSED' || error?.cause?.code === 'ECONNREFUSED';
+}
+
+// First regular page, skipping DevTools and chrome:// targets
+export async function findPageTarget(options: CDPOptions = {}): Promise<string | undefined> {
+  const targets = await listTargets(options);
+  const page = targets.find(t =>
+    t.type === 'page' &&
+    !t.url.startsWith('devtools://') &&
+    !t.url.startsWith('chrome://')
+  );
+  return page?.id;
+}
@@ -1,13 +1,22 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import { spawn, execSync } from 'child_process';
-import { existsSync } from 'fs';
-import { resolve, dirname } from 'path';
-import { fileURLToPath } from 'url';
-import { PixiDebugger } from './debugger.js';
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
+import { Command, Option } from 'commander';
+import { spawn, type ChildProcess } from 'child_process';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { PixiDebugger, NODE_PROPERTY_TYPES, SCENE_FIELDS, type AppSelector, type BenchmarkData, type InteractionResult, type NodeProperty, type SceneGraphOptions, type WatchCondition } from './debugger.js';
+import { connectDaemon, readDaemonState, serve } from './daemon.js';
+import { findPageTarget, isConnectionRefused } from './cdp.js';
+import { serveMcp } from './mcp.js';
+import { findFreePort, killBrowser, launchBrowser, readLaunchState } from './launch.js';
+import { summarizeTextureMemory } from './textures.js';
+import { renderCaptureReport } from './report.js';
+import { summarizeRecording, toTraceEvents } from './trace.js';
+import { aggregateRuns, compareBenchmarks, formatComparison, parseRegression, type BenchmarkBaseline } from './benchmark.js';
+import { formatWatchRow, parseWatchCondition, watchColumns } from './watch.js';
+import { OUTPUT_FORMATS, formatOutput, formatSceneTree, type OutputFormat, type OutputView } from './format.js';
+import { exportSceneGraph, type GraphFormat } from './graph.js';
+import { flattenSceneGraph, diffScenes, globToRegex, isSameSession, queryNodes, type DiffMatch, type SceneSnapshot } from './scene.js';
 
 const program = new Command();
 
@@ -17,64 +26,188 @@ program
   .version('1.0.0')
   .option('-H, --host <host>', 'CDP host', 'localhost')
   .option('-p, --port <port>', 'CDP port', '9222')
-  .option('-t, --target <target>', 'Target page ID or URL');
+  .option('-t, --target <target>', 'Target page ID or URL')
+  .option('--app <app>', 'PixiJS app to inspect when the page has several: index from `apps`, canvas id or CSS selector', parseAppSelector)
+  .option('--no-daemon', 'Connect directly even if a `pixi-debug serve` daemon is running')
+  .addOption(new Option('--format <format>', 'Output format').choices(OUTPUT_FORMATS).default('json'))
+  .option('--columns <list>', 'Comma-separated columns for table, csv and ndjson output (e.g. id,type,alpha)');
+
+const SCENE_COLUMNS = ['id', 'type', 'name', 'visible', 'alpha', 'path'];
+const TEXTURE_COLUMNS = ['index', 'label', 'pixelWidth', 'pixelHeight', 'format', 'sourceType', 'destroyed'];
 
 program
   .command('launch [url]')
-  .description(`Launch Chrome with debugging enabled and PixiJS DevTools extension:
-    - Opens Chrome with remote debugging port
-    - Loads PixiJS DevTools extension automatically
-    - Uses minimal temp profile (no data copying)
-    - Auto-builds extension if not found`)
-  .option('-p, --port <port>', 'CDP port', '9222')
-  .option('--no-extension', 'Launch without loading the extension')
+  .description(`Launch Chrome, Chromium or Edge with remote debugging on a temporary profile:
+    - Finds the browser on macOS, Linux and Windows (override: --browser or CHROME_PATH)
+    - Loads the PixiJS DevTools extension when built next to this package
+    - Waits until the CDP endpoint and, with a URL, a PixiJS app are detected
+    - Headless with software rendering: pixi-debug launch --headless http://localhost:3000
+    - Stop it and delete the profile: pixi-debug launch --kill`)
+  .option('-b, --browser <browser>', 'Browser executable, or chrome, chromium or edge')
+  .option('--headless', 'Run headless with SwiftShader (no GPU needed)')
+  .option('--extension <dir>', 'Unpacked extension to load instead of the PixiJS DevTools build')
+  .option('--no-extension', 'Launch without loading an extension')
+  .option('--timeout <seconds>', 'How long to wait for the browser and the PixiJS app', '30')
+  .option('--kill', 'Stop the browser launched on this port and delete its profile')
   .action(async (url, cmdOpts) => {
-    const port = cmdOpts.port;
-    const chromePath = '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome';
-    const tmpDir = process.env.TMPDIR || '/tmp';
-    const dataDir = `${tmpDir}/chrome-pixi-debug-${port}`;
-
-    // Find extension path (relative to cli package)
-    const extensionDist = resolve(__dirname, '../../devtool-chrome/dist/chrome');
-    const extensionSrc = resolve(__dirname, '../../devtool-chrome');
-
-    const args = [
-      `--remote-debugging-port=${port}`,
-      `--user-data-dir=${dataDir}`,
-    ];
-
-    // Build and load extension if requested
-    if (cmdOpts.extension !== false) {
-      if (!existsSync(extensionDist)) {
-        console.log('Extension not built, building now...');
-        const monorepoRoot = resolve(__dirname, '../../..');
-        const viteBin = resolve(monorepoRoot, 'node_modules/.bin/vite');
-        execSync(`"${viteBin}" build --config vite.chrome.config.ts`, { cwd: extensionSrc, stdio: 'inherit' });
-        execSync(`"${viteBin}" build --config vite.inject.config.ts`, { cwd: extensionSrc, stdio: 'inherit' });
-      }
+    const port = parseInt(program.opts().port);
+    if (!(Number(cmdOpts.timeout) > 0)) {
+      print({ error: `--timeout expects a positive number of seconds, got "${cmdOpts.timeout}"` });
+      process.exit(1);
+    }
 
-      if (existsSync(extensionDist)) {
-        args.push(`--load-extension=${extensionDist}`);
-        console.log(`Loading extension from: ${extensionDist}`);
-      } else {
-        console.warn('Warning: Extension build failed, launching without it');
-      }
+    if (cmdOpts.kill) {
+      const state = await killBrowser(port);
+      print(state ? { killed: state.pid, port, profileDir: state.profileDir } : { error: `No browser launched on port ${port}` });
+      if (!state) process.exitCode = 1;
+      return;
     }
 
-    if (url) {
-      args.push(url);
+    try {
+      const result = await launchBrowser({
+        url,
+        port,
+        browser: cmdOpts.browser,
+        headless: cmdOpts.headless,
+        extension: cmdOpts.extension,
+        timeoutMs: Number(cmdOpts.timeout) * 1000,
+      });
+      print(result);
+    } catch (err) {
+      const state = await readLaunchState(port);
+      print({ error: (err as Error).message, ...(state && { pid: state.pid, hint: 'The browser is still running; stop it with pixi-debug launch --kill' }) });
+      process.exitCode = 1;
     }
+  });
 
-    console.log(`Launching Chrome on port ${port}...`);
-    console.log(`Data directory: ${dataDir}`);
+program
+  .command('run <url> [command...]')
+  .description(`Run commands against a throwaway browser, then shut it down:
+    - pixi-debug run http://localhost:5173 -- capture
+    - Several commands, separated by --: pixi-debug run <url> -- info -- scene -d 2
+    - Launches headless on a free port (or -p), waits for PixiJS and --ready,
+      and prints every command's result in one JSON object
+    - Each command is a separate pixi-debug process that connects and injects
+      on its own; streaming commands (watch, console, --watch) are rejected`)
+  .option('-b, --browser <browser>', 'Browser executable, or chrome, chromium or edge')
+  .option('--no-headless', 'Show the browser window')
+  .option('--extension <dir>', 'Unpacked extension to load')
+  .option('--ready <expression>', 'Page expression that must be truthy before the commands run, e.g. "window.game?.loaded"')
+  .option('--timeout <seconds>', 'How long to wait for the browser and the PixiJS app', '30')
+  .action(async (url, args: string[], cmdOpts) => {
+    const opts = program.opts();
+    const commands = splitCommands(args);
+    if (commands.length === 0) {
+      print({ error: 'No command given, e.g. pixi-debug run <url> -- capture' });
+      process.exitCode = 1;
+      return;
+    }
+    const streaming = commands.filter(isStreamingCommand);
+    if (streaming.length) {
+      print({ error: `Commands that run until interrupted cannot be used with run: ${streaming.map(c => c.join(' ')).join(', ')}` });
+      process.exit(1);
+    }
+    if (!(Number(cmdOpts.timeout) > 0)) {
+      print({ error: `--timeout expects a positive number of seconds, got "${cmdOpts.timeout}"` });
+      process.exit(1);
+    }
 
-    const chrome = spawn(chromePath, args, {
-      detached: true,
-      stdio: 'ignore',
+    const port = program.getOptionValueSource('port') === 'cli' ? parseInt(opts.port) : await findFreePort();
+    // Never tear down a browser that `launch` started earlier on the same port
+    const teardown = await readLaunchState(port) ? async () => {} : () => killBrowser(port);
+    let child: ChildProcess | null = null;
+    process.once('SIGINT', async () => {
+      child?.kill();
+      await teardown();
+      process.exit(130);
     });
 
-    chrome.unref();
-    console.log(`Chrome launched (PID: ${chrome.pid})`);
+    try {
+      const browser = await launchBrowser({
+        url,
+        port,
+        browser: cmdOpts.browser,
+        headless: cmdOpts.headless,
+        extension: cmdOpts.extension ?? false,
+        ready: cmdOpts.ready,
+        timeoutMs: Number(cmdOpts.timeout) * 1000,
+      });
+
+      // Each command runs as its own pixi-debug process against the new browser
+      const globals = ['--host', '127.0.0.1', '--port', String(port), '--no-daemon', ...(opts.app !== undefined ? ['--app', String(opts.app)] : [])];
+      const results = [];
+      for (const command of commands) {
+        const run = spawn(process.execPath, [...process.execArgv, process.argv[1], ...globals, ...command], { stdio: ['ignore', 'pipe', 'inherit'] });
+        child = run;
+        const { exitCode, output } = await collectOutput(run);
+        results.push({ command: command.join(' '), exitCode, output });
+        if (exitCode !== 0) process.exitCode = 1;
+      }
+      child = null;
+
+      print({ url, port, pixi: browser.pixi, commands: results }, { rows: results, columns: ['command', 'exitCode'] });
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exitCode = 1;
+    } finally {
+      await teardown();
+    }
+  });
+
+program
+  .command('serve')
+  .description(`Keep one debugger connection open and serve it over localhost JSON-RPC:
+    - Start: pixi-debug serve &
+    - Other commands then use the daemon automatically (disable with --no-daemon)
+    - Stop: pixi-debug serve --stop
+
+    Reconnects to the browser and re-injects after page reloads.`)
+  .option('--rpc-port <port>', 'Port for the RPC endpoint (default: any free port)', '0')
+  .option('--stop', 'Stop the daemon serving this browser')
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const host = opts.host;
+    const port = parseInt(opts.port);
+
+    if (cmdOpts.stop) {
+      const state = readDaemonState(host, port);
+      if (state) process.kill(state.pid, 'SIGTERM');
+      print({ stopped: state ? state.pid : null });
+      return;
+    }
+
+    const running = readDaemonState(host, port);
+    if (running) {
+      const { token: _, ...shown } = running;
+      print({ error: 'Daemon already running', ...shown });
+      process.exit(1);
+    }
+
+    const { server, state } = await serve({ host, port, target: opts.target, app: opts.app, rpcPort: parseInt(cmdOpts.rpcPort) });
+    const { token: _, ...shown } = state;
+    print({ rpc: `http://127.0.0.1:${state.rpcPort}/`, ...shown });
+
+    const shutdown = () => server.close(() => process.exit(0));
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  });
+
+program
+  .command('mcp')
+  .description(`Run as a Model Context Protocol server over stdio:
+    - Tools: pixi_info, pixi_scene, pixi_stats, pixi_textures, pixi_capture,
+      pixi_inspect, pixi_query, pixi_console
+    - Large results are paginated (offset/limit) and capped at --max-output characters`)
+  .option('--max-output <chars>', 'Maximum characters per tool result', '40000')
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    await serveMcp({
+      host: opts.host,
+      port: parseInt(opts.port),
+      target: opts.target,
+      app: opts.app,
+      maxOutput: parseInt(cmdOpts.maxOutput),
+    });
   });
 
 program
@@ -88,7 +221,19 @@ program
     });
 
     const pages = targets.filter(t => t.type === 'page');
-    console.log(JSON.stringify(pages, null, 2));
+    print(pages);
+  });
+
+program
+  .command('apps')
+  .description(`List PixiJS apps on the page:
+    - Index, canvas id/selector, size, renderer type and version
+    - Pass the index or selector as --app to scope other commands`)
+  .action(async () => {
+    const debugger_ = await createDebugger();
+    const apps = await debugger_.listApps();
+    print(apps);
+    await debugger_.disconnect();
   });
 
 program
@@ -97,36 +242,160 @@ program
   .action(async () => {
     const debugger_ = await createDebugger();
     const info = await debugger_.getInfo();
-    console.log(JSON.stringify(info, null, 2));
+    print(info);
     await debugger_.disconnect();
   });
 
-program
+const sceneCommand = program
   .command('scene')
   .description('Export scene graph as JSON')
-  .option('-d, --depth <depth>', 'Max depth to traverse', '100')
+  .option('-d, --depth <depth>', 'Max depth to traverse (elided children are reported as childCount)')
+  .option('-r, --root <node>', 'Start from a node id or name path instead of the stage')
+  .option('--fields <list>', 'Comma-separated properties to include (e.g. visible,alpha,position)')
   .option('-f, --flat', 'Output flat node list instead of tree')
+  .option('-s, --save <file>', 'Save a snapshot for later diffing')
+  .option('-w, --watch', 'Stream structural changes as NDJSON until interrupted')
+  .option('-e, --export <format>', 'Export as a Graphviz (dot) or Mermaid (mermaid) diagram')
+  .option('--collapse [min]', 'With --export: merge runs of at least min same-type leaf siblings', '0')
   .action(async (cmdOpts) => {
-    const debugger_ = await createDebugger();
-    const sceneGraph = await debugger_.getSceneGraph();
+    if (cmdOpts.export !== undefined && !['dot', 'mermaid'].includes(cmdOpts.export)) {
+      print({ error: `Unknown export format: ${cmdOpts.export} (expected dot or mermaid)` });
+      process.exit(1);
+    }
+    if (cmdOpts.depth !== undefined && !/^\d+$/.test(cmdOpts.depth)) {
+      print({ error: `--depth expects a non-negative integer, got "${cmdOpts.depth}"` });
+      process.exit(1);
+    }
+    if (cmdOpts.collapse !== true && !/^\d+$/.test(cmdOpts.collapse)) {
+      print({ error: `--collapse expects a non-negative integer, got "${cmdOpts.collapse}"` });
+      process.exit(1);
+    }
+    const fields: string[] | undefined = cmdOpts.fields?.split(',').map((f: string) => f.trim()).filter(Boolean);
+    const unknownFields = fields?.filter(f => !(SCENE_FIELDS as string[]).includes(f)) ?? [];
+    if (unknownFields.length) {
+      print({ error: `Unknown field${unknownFields.length > 1 ? 's' : ''}: ${unknownFields.join(', ')} (allowed: ${SCENE_FIELDS.join(', ')})` });
+      process.exit(1);
+    }
+
+    const debugger_ = await createDebugger({ direct: cmdOpts.watch });
+
+    if (cmdOpts.watch) {
+      let stop: (() => Promise<void>) | null = null;
+      const finish = async () => {
+        await stop?.();
+        await debugger_.disconnect();
+        process.exit(0);
+      };
+
+      try {
+        stop = await debugger_.watchScene((event) => {
+          console.log(JSON.stringify(event));
+        }, (reason) => {
+          console.log(JSON.stringify({ done: true, reason }));
+          finish();
+        });
+
+        process.on('SIGINT', finish);
+        process.on('SIGTERM', finish);
+        // Reader went away (e.g. piped into head)
+        process.stdout.on('error', finish);
+      } catch (err) {
+        print({ error: (err as Error).message });
+        process.exitCode = 1;
+        await debugger_.disconnect();
+      }
+      return;
+    }
+
+    if (cmdOpts.save) {
+      const snapshot = await debugger_.getSnapshot();
+      writeFileSync(cmdOpts.save, JSON.stringify(snapshot, null, 2));
+      print({
+        saved: cmdOpts.save,
+        nodes: flattenSceneGraph(snapshot.root).length,
+        url: snapshot.url,
+      });
+      await debugger_.disconnect();
+      return;
+    }
 
+    const sceneGraph = await debugger_.getSceneGraph({
+      rootId: cmdOpts.root,
+      maxDepth: cmdOpts.depth !== undefined ? parseInt(cmdOpts.depth) : undefined,
+      fields: fields as SceneGraphOptions['fields'],
+    });
+
+    if ('error' in sceneGraph) {
+      print(sceneGraph);
+      await debugger_.disconnect();
+      return;
+    }
+
+    if (cmdOpts.export) {
+      // --collapse without a value: runs of 3 or more
+      const collapse = cmdOpts.collapse === true ? 3 : Number(cmdOpts.collapse);
+      console.log(exportSceneGraph(sceneGraph, cmdOpts.export as GraphFormat, { collapse }));
+      await debugger_.disconnect();
+      return;
+    }
+
+    const flat = flattenSceneGraph(sceneGraph);
+    const tree = () => formatSceneTree(sceneGraph);
     if (cmdOpts.flat) {
-      const flat = flattenSceneGraph(sceneGraph);
-      console.log(JSON.stringify(flat, null, 2));
+      print(flat, { columns: SCENE_COLUMNS, tree });
     } else {
-      console.log(JSON.stringify(sceneGraph, null, 2));
+      print(sceneGraph, { rows: flat, columns: SCENE_COLUMNS, tree });
     }
 
     await debugger_.disconnect();
   });
 
+sceneCommand
+  .command('diff <before> [after]')
+  .description(`Structural diff between two scene snapshots:
+    - Compare saved snapshots: pixi-debug scene diff a.json b.json
+    - Compare against the live page: pixi-debug scene diff a.json
+
+    Reports added, removed, moved (reparented) and changed nodes.
+    Match modes: uid (v8, survives reconnects), path (survives reloads), auto`)
+  .option('-m, --match <mode>', 'Node identity: auto, uid or path', 'auto')
+  .action(async (beforeFile, afterFile, cmdOpts) => {
+    if (!['auto', 'uid', 'path'].includes(cmdOpts.match)) {
+      print({ error: `Unknown match mode: ${cmdOpts.match}` });
+      process.exit(1);
+    }
+
+    let before: SceneSnapshot;
+    let after: SceneSnapshot;
+    try {
+      before = readSnapshot(beforeFile);
+      if (afterFile) after = readSnapshot(afterFile);
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exit(1);
+    }
+    if (!afterFile) {
+      const debugger_ = await createDebugger();
+      after = await debugger_.getSnapshot();
+      await debugger_.disconnect();
+    }
+
+    try {
+      const diff = diffScenes(before.root, after!.root, cmdOpts.match as DiffMatch, { sameSession: isSameSession(before, after!) });
+      print(diff);
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exitCode = 1;
+    }
+  });
+
 program
   .command('stats')
   .description('Get scene statistics')
   .option('-w, --watch', 'Watch mode - continuously output stats')
   .option('-i, --interval <ms>', 'Watch interval in milliseconds', '1000')
   .action(async (cmdOpts) => {
-    const debugger_ = await createDebugger();
+    const debugger_ = await createDebugger({ direct: cmdOpts.watch });
 
     if (cmdOpts.watch) {
       process.on('SIGINT', async () => {
@@ -143,7 +412,7 @@ program
       });
     } else {
       const stats = await debugger_.getStats();
-      console.log(JSON.stringify(stats, null, 2));
+      print(stats);
       await debugger_.disconnect();
     }
   });
@@ -154,17 +423,88 @@ program
   .action(async () => {
     const debugger_ = await createDebugger();
     const rendering = await debugger_.getRendering();
-    console.log(JSON.stringify(rendering, null, 2));
+    print(rendering);
     await debugger_.disconnect();
   });
 
 program
   .command('textures')
-  .description('List GPU textures')
+  .description(`List GPU textures:
+    - Include render textures: pixi-debug textures --all
+    - Dump to PNG by index or label glob: pixi-debug textures --dump "atlas*" --out tex/
+    - One labelled image of every texture: pixi-debug textures --contact-sheet --out tex/
+    - Estimated GPU memory by format, source type and label prefix, with duplicate uploads:
+      pixi-debug textures --memory
+    - Leak check while you exercise the app: pixi-debug textures --track 30`)
   .option('-s, --sort <field>', 'Sort by field (width, height, label)')
+  .option('-a, --all', 'Include GPU-only sources such as render textures')
+  .option('--dump <texture>', 'Write texture(s) matching an index or label glob as PNG')
+  .option('--contact-sheet', 'Write all textures tiled into contact-sheet.png')
+  .option('--cell-size <px>', 'Contact sheet thumbnail size', '128')
+  .option('-o, --out <dir>', 'Output directory for --dump and --contact-sheet', '.')
+  .option('-m, --memory', 'Report estimated GPU memory use (includes render textures)')
+  .option('--track <seconds>', 'Watch for textures that are created and never freed')
   .action(async (cmdOpts) => {
     const debugger_ = await createDebugger();
-    let textures = await debugger_.getTextures();
+
+    if (cmdOpts.track !== undefined) {
+      const seconds = parseFloat(cmdOpts.track);
+      if (!(seconds > 0)) {
+        print({ error: `Invalid --track duration: ${cmdOpts.track}` });
+        process.exitCode = 1;
+        await debugger_.disconnect();
+        return;
+      }
+      const tracking = await debugger_.trackTextures(seconds * 1000);
+      print(tracking, 'error' in tracking ? {} : {
+        rows: tracking.suspects,
+        columns: [...TEXTURE_COLUMNS, 'reasons', 'firstSeenAfter'],
+      });
+      await debugger_.disconnect();
+      return;
+    }
+
+    if (cmdOpts.memory) {
+      const report = summarizeTextureMemory(await debugger_.getTextures({ all: true }));
+      print(report, { rows: report.textures });
+      await debugger_.disconnect();
+      return;
+    }
+
+    if (cmdOpts.dump !== undefined || cmdOpts.contactSheet) {
+      mkdirSync(cmdOpts.out, { recursive: true });
+      const written: Array<Record<string, unknown>> = [];
+
+      if (cmdOpts.dump !== undefined) {
+        const all = await debugger_.getTextures({ all: true });
+        const indices = /^\d+$/.test(cmdOpts.dump)
+          ? [parseInt(cmdOpts.dump)]
+          : all.filter(t => new RegExp(`^${globToRegex(cmdOpts.dump)}$`, 'i').test(t.label)).map(t => t.index);
+
+        for (const image of await debugger_.exportTextures(indices)) {
+          if (!image.data) {
+            written.push({ index: image.index, label: image.label, error: image.error });
+            continue;
+          }
+          const file = join(cmdOpts.out, `${image.index}-${sanitizeFileName(image.label || 'unnamed')}.png`);
+          writeFileSync(file, Buffer.from(image.data, 'base64'));
+          written.push({ index: image.index, label: image.label, file, width: image.width, height: image.height });
+        }
+      }
+
+      if (cmdOpts.contactSheet) {
+        const sheet = await debugger_.getTextureContactSheet(parseInt(cmdOpts.cellSize));
+        const file = join(cmdOpts.out, 'contact-sheet.png');
+        writeFileSync(file, Buffer.from(sheet.data, 'base64'));
+        written.push({ file, textures: sheet.count, width: sheet.width, height: sheet.height });
+      }
+
+      print(written);
+      await debugger_.disconnect();
+      return;
+    }
+
+    let textures = await debugger_.getTextures({ all: cmdOpts.all });
 
     if (cmdOpts.sort) {
       textures = textures.sort((a, b) => {
@@ -176,17 +516,17 @@ program
       });
     }
 
-    console.log(JSON.stringify(textures, null, 2));
+    print(textures, { columns: TEXTURE_COLUMNS });
     await debugger_.disconnect();
   });
 
 program
   .command('instructions')
-  .description('Get render instructions (PixiJS v8 only)')
+  .description('Get render instructions (v8: instruction set; v7: steps of one profiled frame)')
   .action(async () => {
     const debugger_ = await createDebugger();
     const instructions = await debugger_.getInstructions();
-    console.log(JSON.stringify(instructions, null, 2));
+    print(instructions);
     await debugger_.disconnect();
   });
 
@@ -196,7 +536,7 @@ program
   .action(async () => {
     const debugger_ = await createDebugger();
     const all = await debugger_.getAll();
-    console.log(JSON.stringify(all, null, 2));
+    print(all);
     await debugger_.disconnect();
   });
 
@@ -208,23 +548,169 @@ program
     - Pipe timings breakdown
     - Full instruction tree with shader code, textures, renderables
     - Scene totals (sprites, containers, filters)
-    - Memory usage statistics`)
-  .action(async () => {
+    - Memory usage statistics
+    - Offline HTML report for bug tickets: pixi-debug capture --html report.html`)
+  .option('--html <file>', 'Write a self-contained HTML report instead of printing JSON')
+  .action(async (cmdOpts) => {
     const debugger_ = await createDebugger();
     const capture = await debugger_.capture();
-    console.log(JSON.stringify(capture, null, 2));
+
+    if (!cmdOpts.html || 'error' in capture) {
+      print(capture);
+      if (cmdOpts.html) process.exitCode = 1;
+    } else {
+      const [info, rendering, url] = await Promise.all([debugger_.getInfo(), debugger_.getRendering(), debugger_.getUrl()]);
+      writeFileSync(cmdOpts.html, renderCaptureReport(capture, { url, pixiVersion: info.version, rendering }));
+      print({
+        file: cmdOpts.html,
+        drawCalls: capture.drawCalls,
+        renderTime: capture.renderTime,
+        instructions: capture.instructions.length,
+      });
+    }
+    await debugger_.disconnect();
+  });
+
+program
+  .command('record')
+  .description(`Record real (ticker-driven) frames as a Trace Event file:
+    - Pipe execute spans, draw call / GPU encoder counters, JS heap samples
+    - Instruction set rebuilds (v8) as instant events
+    - Open the file in https://ui.perfetto.dev or chrome://tracing`)
+  .option('-f, --frames <count>', 'Number of frames to record', '300')
+  .option('-o, --out <file>', 'Trace output file', 'trace.json')
+  .option('--timeout <seconds>', 'Stop early if the app renders no more frames', '30')
+  .action(async (cmdOpts) => {
+    const debugger_ = await createDebugger();
+    const recording = await debugger_.record(parseInt(cmdOpts.frames), parseFloat(cmdOpts.timeout) * 1000);
+
+    if ('error' in recording) {
+      print(recording);
+      process.exitCode = 1;
+      await debugger_.disconnect();
+      return;
+    }
+
+    writeFileSync(cmdOpts.out, JSON.stringify(toTraceEvents(recording)));
+    print({ file: cmdOpts.out, ...summarizeRecording(recording) });
+    await debugger_.disconnect();
+  });
+
+program
+  .command('screenshot')
+  .description(`Save a PNG of the canvas or a single node:
+    - Whole canvas: pixi-debug screenshot --out frame.png
+    - One node rendered alone: pixi-debug screenshot --node node_12
+    - Node as seen on screen: pixi-debug screenshot --node node_12 --method page`)
+  .option('-n, --node <node>', 'Node id or name path to capture')
+  .option('-o, --out <file>', 'Output PNG file')
+  .option('-m, --method <method>', 'extract (renderer) or page (browser screenshot cropped to bounds)')
+  .action(async (cmdOpts) => {
+    if (cmdOpts.method && !['extract', 'page'].includes(cmdOpts.method)) {
+      print({ error: `Unknown method: ${cmdOpts.method}` });
+      process.exit(1);
+    }
+
+    const debugger_ = await createDebugger();
+    try {
+      const shot = await debugger_.screenshot({ nodeId: cmdOpts.node, method: cmdOpts.method });
+      const file = cmdOpts.out || `screenshot-${Date.now()}.png`;
+      writeFileSync(file, Buffer.from(shot.data, 'base64'));
+      print({ file, method: shot.method, width: shot.width, height: shot.height });
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exitCode = 1;
+    }
     await debugger_.disconnect();
   });
 
 program
   .command('benchmark')
-  .description('Run performance benchmark')
+  .description(`Run performance benchmark:
+    - Median of several runs: pixi-debug benchmark --runs 5
+    - Save a baseline: pixi-debug benchmark --runs 5 --save baseline.json
+    - Gate CI on it: pixi-debug benchmark --runs 5 --compare baseline.json --max-regression 10%
+
+    Compares avg/p95/p99 frame time and draw calls; exits 1 on regression.
+
+    Modes:
+    - loop: render back to back in a busy loop (raw render cost; freezes the page)
+    - realtime: measure the app's own frames via rAF, with dropped frames,
+      long tasks and the ticker/render/idle split per frame`)
   .option('-d, --duration <ms>', 'Benchmark duration in milliseconds', '3000')
+  .option('-m, --mode <mode>', 'loop or realtime', 'loop')
+  .option('-r, --runs <count>', 'Runs to aggregate by median', '1')
+  .option('--save <file>', 'Write the result as a baseline file')
+  .option('--compare <file>', 'Compare against a saved baseline and print a delta table')
+  .option('--max-regression <percent>', 'Allowed increase per metric for --compare', '10%')
   .action(async (cmdOpts) => {
+    if (!['loop', 'realtime'].includes(cmdOpts.mode)) {
+      print({ error: `Unknown mode: ${cmdOpts.mode}` });
+      process.exit(1);
+    }
+
+    for (const option of ['runs', 'duration'] as const) {
+      if (!/^\d+$/.test(cmdOpts[option]) || Number(cmdOpts[option]) === 0) {
+        print({ error: `--${option} expects a positive integer, got "${cmdOpts[option]}"` });
+        process.exit(1);
+      }
+    }
+
+    // Read the baseline before benchmarking so a bad file fails fast
+    let maxRegression: number;
+    let baseline: BenchmarkData | undefined;
+    try {
+      maxRegression = parseRegression(cmdOpts.maxRegression);
+      if (cmdOpts.compare) {
+        baseline = readBaseline(cmdOpts.compare);
+        if ((baseline.mode ?? 'loop') !== cmdOpts.mode) {
+          throw new Error(`Baseline was measured in ${baseline.mode ?? 'loop'} mode, use --mode ${baseline.mode ?? 'loop'}`);
+        }
+      }
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exit(1);
+    }
+
     const debugger_ = await createDebugger();
-    const benchmark = await debugger_.benchmark(parseInt(cmdOpts.duration));
-    console.log(JSON.stringify(benchmark, null, 2));
+    const runs: BenchmarkData[] = [];
+    for (let i = 0; i < Number(cmdOpts.runs); i++) {
+      const run = await debugger_.benchmark(Number(cmdOpts.duration), cmdOpts.mode);
+      if ('error' in run) {
+        print(run);
+        process.exitCode = 1;
+        await debugger_.disconnect();
+        return;
+      }
+      runs.push(run);
+    }
+    const benchmark = runs.length === 1 ? runs[0] : aggregateRuns(runs);
+
+    if (cmdOpts.save) {
+      const info = await debugger_.getInfo();
+      const baseline: BenchmarkBaseline = {
+        version: 1,
+        savedAt: new Date().toISOString(),
+        pixiVersion: info.version,
+        result: benchmark,
+      };
+      writeFileSync(cmdOpts.save, JSON.stringify(baseline, null, 2));
+    }
     await debugger_.disconnect();
+
+    if (baseline) {
+      try {
+        const comparison = compareBenchmarks(baseline, benchmark, maxRegression);
+        console.log(formatComparison(comparison));
+        if (comparison.regressed) process.exitCode = 1;
+      } catch (err) {
+        print({ error: (err as Error).message });
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    print(benchmark);
   });
 
 program
@@ -247,12 +733,12 @@ program
     const capture = await debugger_.capture();
 
     if ('error' in capture) {
-      console.log(JSON.stringify(capture, null, 2));
+      print(capture);
       await debugger_.disconnect();
       return;
     }
 
-    let instructions = (capture as unknown as { instructions: Array<{ index: number; type: string; action: string; depth: number }> }).instructions;
+    let instructions = capture.instructions;
 
     // Filter by type if specified
     if (cmdOpts.filter) {
@@ -268,15 +754,15 @@ program
         action: i.action,
         depth: i.depth
       }));
-      console.log(JSON.stringify(summary, null, 2));
+      print(summary);
     } else {
       // Show specific instruction
       const idx = parseInt(index);
       const instruction = instructions.find(i => i.index === idx);
       if (instruction) {
-        console.log(JSON.stringify(instruction, null, 2));
+        print(instruction);
       } else {
-        console.log(JSON.stringify({ error: `Instruction ${idx} not found` }, null, 2));
+        print({ error: `Instruction ${idx} not found` });
       }
     }
 
@@ -296,7 +782,7 @@ program
   .option('-j, --json', 'Output as JSON')
   .option('-c, --clear', 'Clear console before watching')
   .action(async (cmdOpts) => {
-    const debugger_ = await createDebugger();
+    const debugger_ = await createDebugger({ direct: true });
 
     if (cmdOpts.clear) {
       await debugger_.clearConsole();
@@ -339,55 +825,227 @@ program
   .action(async (selector, cmdOpts) => {
     const debugger_ = await createDebugger();
     const sceneGraph = await debugger_.getSceneGraph();
+    const matches = queryNodes(flattenSceneGraph(sceneGraph), selector, { type: cmdOpts.type, regex: cmdOpts.regex });
+
+    print(matches, { columns: SCENE_COLUMNS });
+    await debugger_.disconnect();
+  });
+
+program
+  .command('pick <x> <y>')
+  .description(`Find which node is at a canvas coordinate (renderer screen units):
+    - Topmost interactive node: pixi-debug pick 120 340
+    - Every node whose bounds contain the point: pixi-debug pick 120 340 --all
+
+    Each result includes id, path, eventMode, hitArea and whether it is blocked.`)
+  .option('-a, --all', 'List the full stack of nodes under the point, topmost first')
+  .action(async (x, y, cmdOpts) => {
+    const invalid = [x, y].filter(value => value.trim() === '' || !Number.isFinite(Number(value)));
+    if (invalid.length) {
+      print({ error: `Coordinates must be numbers, got "${invalid.join('", "')}"` });
+      process.exit(1);
+    }
+
+    const debugger_ = await createDebugger();
+    const result = await debugger_.pick(Number(x), Number(y), !!cmdOpts.all);
+    print(result);
+    await debugger_.disconnect();
+  });
+
+program
+  .command('click <node>')
+  .description(`Click a node (id or name path) with real browser input and report
+which federated events it received:
+    - pixi-debug click node_12
+    - pixi-debug click "Container/ui/play" --touch
+
+    outcome: received, covered (another node takes the hit), handler-error, no-events`)
+  .option('--touch', 'Send touch events instead of mouse events')
+  .option('--settle <ms>', 'Wait before collecting events', '100')
+  .action(async (node, cmdOpts) => {
+    await runInteraction(debugger_ => debugger_.click(node, { touch: cmdOpts.touch, settleMs: parseInt(cmdOpts.settle) }));
+  });
+
+program
+  .command('hover <node>')
+  .description('Move the pointer onto a node and report the events it received')
+  .option('--settle <ms>', 'Wait before collecting events', '100')
+  .action(async (node, cmdOpts) => {
+    await runInteraction(debugger_ => debugger_.hover(node, { settleMs: parseInt(cmdOpts.settle) }));
+  });
+
+program
+  .command('drag <from> <to>')
+  .description(`Drag from a node to another node or to a point:
+    - pixi-debug drag node_12 node_40
+    - pixi-debug drag node_12 300,200    (renderer screen units)`)
+  .option('--touch', 'Send touch events instead of mouse events')
+  .option('--steps <n>', 'Intermediate move events', '10')
+  .option('--settle <ms>', 'Wait before collecting events', '100')
+  .action(async (from, to, cmdOpts) => {
+    const point = /^(-?[\d.]+),(-?[\d.]+)$/.exec(to);
+    const destination = point ? { x: parseFloat(point[1]), y: parseFloat(point[2]) } : to;
+    await runInteraction(debugger_ => debugger_.drag(from, destination, {
+      touch: cmdOpts.touch,
+      steps: parseInt(cmdOpts.steps),
+      settleMs: parseInt(cmdOpts.settle),
+    }));
+  });
+
+program
+  .command('highlight [selector]')
+  .description(`Outline nodes on top of the app (bounds follow rotation and scale):
+    - By id or path: pixi-debug highlight node_12
+    - By name glob: pixi-debug highlight "*Button*" --duration 5000
+    - Keep until cleared: pixi-debug highlight node_12 --duration 0
+    - Remove: pixi-debug highlight --clear
+
+    Pink: transformed bounds, cyan dot: pivot, yellow cross: anchor`)
+  .option('-d, --duration <ms>', 'How long to show the outline (0 = until --clear)', '3000')
+  .option('-c, --clear', 'Remove the current highlight')
+  .action(async (selector, cmdOpts) => {
+    const debugger_ = await createDebugger();
+
+    if (cmdOpts.clear || !selector) {
+      print(await debugger_.clearHighlight());
+      await debugger_.disconnect();
+      return;
+    }
+
+    const sceneGraph = await debugger_.getSceneGraph({ fields: [] });
     const flat = flattenSceneGraph(sceneGraph);
+    const exact = flat.filter(node => node.id === selector || node.path === selector);
+    const pattern = new RegExp(`^${globToRegex(selector)}$`, 'i');
+    const matches = exact.length > 0 ? exact : flat.filter(node => pattern.test(node.name));
 
-    const pattern = cmdOpts.regex
-      ? new RegExp(selector, 'i')
-      : new RegExp(globToRegex(selector), 'i');
-    let matches = flat.filter(node => pattern.test(node.name) || pattern.test(node.id));
+    if (matches.length === 0) {
+      print({ error: `No nodes match: ${selector}` });
+      process.exitCode = 1;
+    } else {
+      const result = await debugger_.highlight(matches.map(node => node.id), parseInt(cmdOpts.duration));
+      print(result);
+    }
+    await debugger_.disconnect();
+  });
+
+program
+  .command('set <node> <assignments...>')
+  .description(`Set properties on a live node (by id or name path):
+    - pixi-debug set node_12 visible=false alpha=0.5
+    - pixi-debug set "Container/ui/button" position.x=120 tint=0xff0000
 
-    if (cmdOpts.type) {
-      const typePattern = cmdOpts.regex
-        ? new RegExp(cmdOpts.type, 'i')
-        : new RegExp(globToRegex(cmdOpts.type), 'i');
-      matches = matches.filter(node => typePattern.test(node.type));
+    Settable: ${Object.keys(NODE_PROPERTY_TYPES).join(', ')}
+    Outputs before/after values so the change can be reverted.`)
+  .action(async (node, assignments: string[]) => {
+    let values: Partial<Record<NodeProperty, unknown>>;
+    try {
+      values = Object.fromEntries(assignments.map(parseAssignment));
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exit(1);
     }
 
-    console.log(JSON.stringify(matches, null, 2));
+    const debugger_ = await createDebugger();
+    try {
+      const mutation = await debugger_.setNodeProperties(node, values);
+      print(mutation);
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exitCode = 1;
+    }
     await debugger_.disconnect();
   });
 
-async function createDebugger(): Promise<PixiDebugger> {
-  const opts = program.opts();
-  const debugger_ = new PixiDebugger();
+program
+  .command('watch <node> <props...>')
+  .description(`Sample node properties every frame and stream them as NDJSON:
+    - pixi-debug watch node_12 position.x alpha worldVisible
+    - pixi-debug watch "Stage/hud/panel" alpha --on-change --until "alpha==0"
 
-  let target = opts.target;
+    Stops on Ctrl+C, when an --until condition holds, when the node is
+    destroyed or removed, or when the page navigates; the last line has
+    "done": true and a reason.`)
+  .option('-c, --on-change', 'Only output frames where a value changed')
+  .option('-u, --until <condition>', 'Stop when a condition holds, e.g. "alpha==0" (repeatable)', (value: string, previous: string[] = []) => [...previous, value])
+  .option('--table', 'Compact table instead of NDJSON')
+  .action(async (node, props: string[], cmdOpts) => {
+    let until: WatchCondition[];
+    try {
+      until = (cmdOpts.until ?? []).map(parseWatchCondition);
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exit(1);
+    }
 
-  // Auto-select first non-devtools page if no target specified
-  if (!target) {
-    const targets = await PixiDebugger.listTargets({
-      host: opts.host,
-      port: parseInt(opts.port),
-    });
-    const page = targets.find(t =>
-      t.type === 'page' &&
-      !t.url.startsWith('devtools://') &&
-      !t.url.startsWith('chrome://')
-    );
-    if (page) {
-      target = page.id;
+    const debugger_ = await createDebugger({ direct: true });
+    let columns: string[] | null = null;
+    let stop: (() => Promise<void>) | null = null;
+    const finish = async () => {
+      await stop?.();
+      await debugger_.disconnect();
+      process.exit(0);
+    };
+
+    try {
+      stop = await debugger_.watchNode(node, props, (sample) => {
+        if (!cmdOpts.table) {
+          console.log(JSON.stringify(sample));
+        } else {
+          if (!columns) {
+            columns = watchColumns(props, sample);
+            console.log(formatWatchRow(columns, null));
+          }
+          console.log(formatWatchRow(columns, sample));
+          if (sample.done) console.log(`(${sample.reason})`);
+        }
+        if (sample.done) finish();
+      }, { onChange: cmdOpts.onChange, until }, (reason) => {
+        console.log(cmdOpts.table ? `(${reason})` : JSON.stringify({ done: true, reason }));
+        finish();
+      });
+    } catch (err) {
+      print({ error: (err as Error).message });
+      process.exitCode = 1;
+      await debugger_.disconnect();
+      return;
     }
+
+    process.on('SIGINT', finish);
+    process.on('SIGTERM', finish);
+    process.stdout.on('error', finish);
+  });
+
+/**
+ * Print a command result in the global --format (JSON by default). The view
+ * tells the row formats and the tree format what to show.
+ */
+function print(data: unknown, view: OutputView = {}): void {
+  const opts = program.opts();
+  const columns = opts.columns?.split(',').map((c: string) => c.trim()).filter(Boolean);
+  console.log(formatOutput(data, opts.format as OutputFormat, view, columns));
+}
+
+/**
+ * Connect to the page. Uses a running `pixi-debug serve` daemon when there is one,
+ * unless `direct` is set (streaming commands need their own CDP connection).
+ */
+async function createDebugger(options: { direct?: boolean } = {}): Promise<PixiDebugger> {
+  const opts = program.opts();
+  const cdpOptions = { host: opts.host, port: parseInt(opts.port), target: opts.target, app: opts.app };
+
+  if (!options.direct && opts.daemon !== false) {
+    const remote = await connectDaemon(cdpOptions);
+    if (remote) return remote;
   }
 
+  const debugger_ = new PixiDebugger();
+
   try {
-    await debugger_.connect({
-      host: opts.host,
-      port: parseInt(opts.port),
-      target,
-    });
+    // Auto-select first non-devtools page if no target specified
+    const target = cdpOptions.target || await findPageTarget(cdpOptions);
+    await debugger_.connect({ ...cdpOptions, target });
   } catch (err) {
-    const error = err as Error & { code?: string };
-    if (error.code === 'ECONNREFUSED') {
+    if (isConnectionRefused(err)) {
       console.error(JSON.stringify({
         error: 'Connection refused',
         message: `Cannot connect to Chrome at ${opts.host}:${opts.port}`,
@@ -401,49 +1059,122 @@ async function createDebugger(): Promise<PixiDebugger> {
   return debugger_;
 }
 
-interface FlatNode {
-  id: string;
-  name: string;
-  type: string;
-  path: string;
-  depth: number;
-  visible: boolean;
-  alpha: number;
-  position: { x: number; y: number };
+function parseAppSelector(value: string): AppSelector {
+  return /^\d+$/.test(value) ? parseInt(value) : value;
 }
 
-function flattenSceneGraph(
-  node: { id: string; name: string; type: string; visible: boolean; alpha: number; position: { x: number; y: number }; depth: number; children?: unknown[] },
-  path = '',
-  result: FlatNode[] = []
-): FlatNode[] {
-  const currentPath = path ? `${path}/${node.name}` : node.name;
-
-  result.push({
-    id: node.id,
-    name: node.name,
-    type: node.type,
-    path: currentPath,
-    depth: node.depth,
-    visible: node.visible,
-    alpha: node.alpha,
-    position: node.position,
+async function runInteraction(interaction: (debugger_: PixiDebugger) => Promise<InteractionResult>): Promise<void> {
+  const debugger_ = await createDebugger();
+  try {
+    const result = await interaction(debugger_);
+    print(result);
+  } catch (err) {
+    print({ error: (err as Error).message });
+    process.exitCode = 1;
+  }
+  await debugger_.disconnect();
+}
+
+/** `run` arguments split into commands at each `--` */
+function splitCommands(args: string[]): string[][] {
+  const commands: string[][] = [[]];
+  for (const arg of args) {
+    if (arg === '--') commands.push([]);
+    else commands[commands.length - 1].push(arg);
+  }
+  return commands.filter(command => command.length > 0);
+}
+
+/** Commands that stream or serve until interrupted, so they would never finish inside run */
+function isStreamingCommand([name, ...args]: string[]): boolean {
+  if (['watch', 'console', 'serve', 'mcp'].includes(name)) return true;
+  return ['scene', 'stats'].includes(name) && args.some(arg => arg === '--watch' || /^-[a-zA-Z]*w[a-zA-Z]*$/.test(arg));
+}
+
+/** A finished command's exit code and its output, parsed when it is JSON */
+function collectOutput(child: ChildProcess): Promise<{ exitCode: number; output: unknown }> {
+  let stdout = '';
+  child.stdout!.on('data', (chunk: Buffer) => { stdout += chunk; });
+  return new Promise((resolve, reject) => {
+    child.once('error', reject);
+    child.once('close', (code) => {
+      const text = stdout.trim();
+      let output: unknown = text || null;
+      try {
+        output = JSON.parse(text);
+      } catch {
+        // Text formats and streamed NDJSON stay as printed
+      }
+      resolve({ exitCode: code ?? 1, output });
+    });
   });
+}
 
-  if (node.children && Array.isArray(node.children)) {
-    for (const child of node.children) {
-      flattenSceneGraph(child as typeof node, currentPath, result);
-    }
+function readSnapshot(file: string): SceneSnapshot {
+  let data;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read snapshot ${file}: ${(err as Error).message}`);
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error(`Not a scene snapshot: ${file}`);
   }
+  // Accept bare scene graphs (e.g. `pixi-debug scene > a.json`) as well as saved snapshots
+  return 'root' in data ? data : { version: 1, savedAt: '', url: '', pixiVersion: '', root: data };
+}
 
+function readBaseline(file: string): BenchmarkData {
+  let data;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read baseline ${file}: ${(err as Error).message}`);
+  }
+  // Accept plain `pixi-debug benchmark > result.json` output as well as saved baselines
+  const result = data && typeof data === 'object' && 'result' in data ? data.result : data;
+  if (!result || typeof result !== 'object' || typeof result.frameTime?.avg !== 'number') {
+    throw new Error(`Not a benchmark result or baseline: ${file}`);
+  }
   return result;
 }
 
-function globToRegex(glob: string): string {
-  return glob
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&')  // escape regex special chars except * and ?
-    .replace(/\*/g, '.*')                   // * -> .*
-    .replace(/\?/g, '.');                   // ? -> .
+function parseAssignment(assignment: string): [NodeProperty, unknown] {
+  const eq = assignment.indexOf('=');
+  if (eq <= 0) {
+    throw new Error(`Invalid assignment "${assignment}", expected property=value`);
+  }
+
+  const key = assignment.slice(0, eq) as NodeProperty;
+  const raw = assignment.slice(eq + 1);
+
+  switch (NODE_PROPERTY_TYPES[key]) {
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new Error(`Property ${key} expects true or false, got "${raw}"`);
+      }
+      return [key, raw === 'true'];
+    case 'number': {
+      // Accept CSS-style colours for tint
+      const value = Number(raw.startsWith('#') ? `0x${raw.slice(1)}` : raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new Error(`Property ${key} expects a number, got "${raw}"`);
+      }
+      return [key, value];
+    }
+    case 'string':
+      return [key, raw];
+    default:
+      throw new Error(`Property not settable: ${key} (allowed: ${Object.keys(NODE_PROPERTY_TYPES).join(', ')})`);
+  }
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_').slice(0, 80);
 }
 
-program.parse();
+// Errors a command does not handle itself, e.g. a daemon that lost the browser
+program.parseAsync().catch((err) => {
+  print({ error: (err as Error).message });
+  process.exit(1);
+});
@@ -0,0 +1,294 @@
+// Persistent debugger daemon: keeps one PixiDebugger connected and serves its
+// methods as JSON-RPC 2.0 over localhost HTTP, so chained CLI calls skip the
+// connect + inject round trip
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findPageTarget, isConnectionRefused } from './cdp.js';
+import { PixiDebugger, type AppSelector, type ConnectOptions } from './debugger.js';
+
+export interface DaemonState {
+  pid: number;
+  rpcPort: number;
+  cdpHost: string;
+  cdpPort: number;
+  /** Target requested when the daemon was started; undefined means auto-selected */
+  target?: string;
+  /** Secret every request must send as a bearer token; only the state file (readable by this user) holds it */
+  token: string;
+  startedAt: string;
+}
+
+export interface DaemonOptions extends ConnectOptions {
+  /** Port for the RPC endpoint; 0 picks a free one */
+  rpcPort?: number;
+}
+
+/** Request/response methods that can be called through the daemon */
+export const DAEMON_METHODS = [
+  'listApps',
+  'getInfo',
+  'getUrl',
+  'getSceneGraph',
+  'getSnapshot',
+  'setNodeProperty',
+  'setNodeProperties',
+  'screenshot',
+  'pick',
+  'click',
+  'hover',
+  'drag',
+  'highlight',
+  'clearHighlight',
+  'getStats',
+  'getRendering',
+  'getTextures',
+  'trackTextures',
+  'exportTextures',
+  'getTextureContactSheet',
+  'getInstructions',
+  'getAll',
+  'capture',
+  'record',
+  'benchmark',
+  'clearConsole',
+] as const satisfies ReadonlyArray<keyof PixiDebugger>;
+
+type DaemonMethod = typeof DAEMON_METHODS[number];
+
+interface RpcRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+  /** App the call is scoped to; omitted means the first app */
+  app?: AppSelector | null;
+}
+
+const RPC_TIMEOUT_MS = 500;
+
+export function daemonStatePath(host = 'localhost', port = 9222): string {
+  return join(tmpdir(), `pixi-debug-daemon-${host}-${port}.json`);
+}
+
+export function readDaemonState(host = 'localhost', port = 9222): DaemonState | null {
+  const file = daemonStatePath(host, port);
+  if (!existsSync(file)) return null;
+
+  let state: DaemonState;
+  try {
+    state = JSON.parse(readFileSync(file, 'utf-8')) as DaemonState;
+    process.kill(state.pid, 0);
+  } catch (err) {
+    // Corrupt file or the daemon process is gone; EPERM means it is alive but not ours to signal
+    if ((err as NodeJS.ErrnoException).code === 'EPERM') return null;
+    unlinkSync(file);
+    return null;
+  }
+  return state;
+}
+
+export interface KeptConnection {
+  /** Run against a live, injected debugger; retried once on a fresh connection if the browser went away */
+  run<T>(fn: (debugger_: PixiDebugger) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * Lazily connected PixiDebugger for long-running processes (daemon, MCP server).
+ * Reconnects (re-selecting the target) when the socket drops and re-injects
+ * after page reloads.
+ */
+export function keepConnected(options: ConnectOptions = {}): KeptConnection {
+  const { host = 'localhost', port = 9222, target, app } = options;
+  let debugger_: PixiDebugger | null = null;
+
+  const get = async (): Promise<PixiDebugger> => {
+    if (debugger_?.isConnected) {
+      await debugger_.ensureInjected();
+      return debugger_;
+    }
+    const fresh = new PixiDebugger();
+    try {
+      await fresh.connect({ host, port, target: target || await findPageTarget({ host, port }), app });
+    } catch (err) {
+      if (isConnectionRefused(err)) throw new Error(`Cannot connect to Chrome at ${host}:${port} (connection refused)`);
+      throw err;
+    }
+    debugger_ = fresh;
+    return fresh;
+  };
+
+  return {
+    async run(fn) {
+      try {
+        return await fn(await get());
+      } catch (err) {
+        if (debugger_?.isConnected) throw err;
+        return fn(await get());
+      }
+    },
+    async close() {
+      await debugger_?.disconnect();
+      debugger_ = null;
+    },
+  };
+}
+
+/** Start serving; the browser connection is kept by keepConnected */
+export async function serve(options: DaemonOptions = {}): Promise<{ server: Server; state: DaemonState }> {
+  const { host = 'localhost', port = 9222, target, app, rpcPort = 0 } = options;
+  const connection = keepConnected({ host, port, target, app });
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Each client picks its own app, so selection happens per call
+  const invoke = (method: DaemonMethod, params: unknown[], selected: AppSelector | null): Promise<unknown> =>
+    connection.run(async debugger_ => {
+      await debugger_.selectApp(selected);
+      return (debugger_[method] as (...args: unknown[]) => Promise<unknown>)(...params);
+    });
+
+  const token = randomBytes(24).toString('hex');
+
+  const server = createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    // Web pages can POST to localhost too: they send an Origin and cannot set the token header
+    if (req.headers.origin !== undefined || !isJsonContentType(req)) {
+      res.writeHead(403).end();
+      return;
+    }
+    if (!hasToken(req, token)) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      let request: RpcRequest;
+      try {
+        request = JSON.parse(body);
+      } catch {
+        respond(res, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+        return;
+      }
+
+      if (typeof request !== 'object' || request === null || Array.isArray(request) || typeof request.method !== 'string') {
+        respond(res, { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } });
+        return;
+      }
+      if (request.params !== undefined && !Array.isArray(request.params)) {
+        respond(res, { jsonrpc: '2.0', id: request.id ?? null, error: { code: -32602, message: 'Invalid params' } });
+        return;
+      }
+
+      if (request.method === 'ping') {
+        respond(res, { jsonrpc: '2.0', id: request.id, result: 'pong' });
+        return;
+      }
+
+      if (!(DAEMON_METHODS as readonly string[]).includes(request.method)) {
+        respond(res, { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } });
+        return;
+      }
+
+      // Calls share one page, so run them one at a time
+      const result = queue.then(() => invoke(request.method as DaemonMethod, request.params || [], request.app ?? app ?? null));
+      queue = result.catch(() => {});
+
+      result.then(
+        value => respond(res, { jsonrpc: '2.0', id: request.id, result: value ?? null }),
+        err => respond(res, { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: (err as Error).message } })
+      );
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(rpcPort, '127.0.0.1', resolve);
+  });
+
+  const address = server.address();
+  const state: DaemonState = {
+    pid: process.pid,
+    rpcPort: typeof address === 'object' && address ? address.port : rpcPort,
+    cdpHost: host,
+    cdpPort: port,
+    target,
+    token,
+    startedAt: new Date().toISOString(),
+  };
+  writeFileSync(daemonStatePath(host, port), JSON.stringify(state, null, 2), { mode: 0o600 });
+
+  server.on('close', async () => {
+    const file = daemonStatePath(host, port);
+    if (existsSync(file)) unlinkSync(file);
+    await connection.close();
+  });
+
+  return { server, state };
+}
+
+/**
+ * A PixiDebugger stand-in that forwards calls to a running daemon, or null if no
+ * daemon serves this browser (and target). Streaming methods are not available.
+ */
+export async function connectDaemon(options: ConnectOptions = {}): Promise<PixiDebugger | null> {
+  const { host = 'localhost', port = 9222, target, app } = options;
+  const state = readDaemonState(host, port);
+  if (!state || (target && target !== state.target)) return null;
+
+  const url = `http://127.0.0.1:${state.rpcPort}/`;
+  try {
+    await rpc(url, state.token, 'ping', [], AbortSignal.timeout(RPC_TIMEOUT_MS));
+  } catch {
+    return null;
+  }
+
+  return new Proxy({} as PixiDebugger, {
+    get(_, name) {
+      if (name === 'disconnect') return async () => {};
+      // Not a thenable, so it can be returned from async functions
+      if (name === 'then') return undefined;
+      if (!(DAEMON_METHODS as readonly (string | symbol)[]).includes(name)) {
+        return () => { throw new Error(`${String(name)} is not available through the daemon`); };
+      }
+      return (...params: unknown[]) => rpc(url, state.token, name as string, params, undefined, app);
+    },
+  });
+}
+
+async function rpc(url: string, token: string, method: string, params: unknown[], signal?: AbortSignal, app?: AppSelector): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params, app }),
+    signal,
+  });
+  const reply = await response.json() as { result?: unknown; error?: { message: string } };
+  if (reply.error) {
+    throw new Error(reply.error.message);
+  }
+  return reply.result;
+}
+
+function isJsonContentType(req: IncomingMessage): boolean {
+  return req.headers['content-type']?.split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+function hasToken(req: IncomingMessage, token: string): boolean {
+  const sent = Buffer.from(req.headers.authorization ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  return sent.length === expected.length && timingSafeEqual(sent, expected);
+}
+
+function respond(res: ServerResponse, payload: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
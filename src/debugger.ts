@@ -1,5 +1,7 @@
+import { randomUUID } from 'crypto';
 import { connect, evaluate, listTargets, type CDPClient, type CDPOptions, type ConsoleMessage, type LogEntry } from './cdp.js';
-import { INJECT_SCRIPT } from './inject.js';
+import { APP_HOOK_SCRIPT, EMIT_BINDING, INJECT_SCRIPT, NODE_PROPERTY_TYPES } from './inject.js';
+import type { SceneSnapshot } from './scene.js';
 
 export interface PixiInfo {
   version: string;
@@ -11,6 +13,8 @@ export interface PixiInfo {
 
 export interface SceneNode {
   id: string;
+  /** PixiJS v8 container uid, absent on v7 */
+  uid?: number;
   name: string;
   type: string;
   visible: boolean;
@@ -33,6 +37,26 @@ export interface SceneNode {
   tint?: number;
   blendMode?: string;
   text?: string;
+  /** v7 Graphics fill and line style */
+  fillStyle?: unknown;
+  lineStyle?: unknown;
+  /** Root of a v8 render group; only present when true */
+  isRenderGroup?: boolean;
+  /** Node used as this node's mask; it may live outside the stage */
+  mask?: { id: string; name: string; type: string };
+  /** Filter labels or class names */
+  filters?: string[];
+  /** Number of direct children left out because maxDepth was reached */
+  childCount?: number;
+}
+
+export interface SceneGraphOptions {
+  /** Node id or name path to start from (defaults to the stage) */
+  rootId?: string;
+  /** Levels below the root to include; deeper children are reported via childCount */
+  maxDepth?: number;
+  /** Properties to include besides id, name, type, depth and children */
+  fields?: Array<keyof SceneNode>;
 }
 
 export interface SceneStats {
@@ -65,12 +89,18 @@ export interface RenderingInfo {
 }
 
 export interface TextureInfo {
+  /** Position in renderer.texture.managedTextures */
+  index: number;
   label: string;
   width: number;
   height: number;
   pixelWidth: number;
   pixelHeight: number;
   format: string;
+  /** What the source holds; 'text' is detected by label and best effort */
+  sourceType: 'image' | 'canvas' | 'video' | 'buffer' | 'compressed' | 'renderTexture' | 'text' | 'unknown';
+  /** Identity of the uploaded resource (image URL or a per-object id); null for render textures */
+  resourceKey: string | null;
   mipLevelCount: number;
   autoGenerateMipmaps: boolean;
   alphaMode: string;
@@ -80,6 +110,54 @@ export interface TextureInfo {
   autoGarbageCollect: boolean;
 }
 
+export interface TrackedTexture extends TextureInfo {
+  /**
+   * destroyed: destroyed but still managed; unreferenced: created while tracking
+   * and not used by any stage node; unattributed: the same for a render or text
+   * texture, which filters, texture pools and text rendering hold outside the
+   * stage, so it may well be in use
+   */
+  reasons: Array<'destroyed' | 'unreferenced' | 'unattributed'>;
+  /** Already managed when tracking started (firstSeen is then the start time) */
+  existedBefore: boolean;
+  firstSeen: string;
+  /** Seconds after tracking started */
+  firstSeenAfter: number;
+}
+
+export interface TextureTracking {
+  duration: number;
+  startedAt: string;
+  summary: {
+    before: number;
+    after: number;
+    /** Sources first seen during tracking, including ones freed again */
+    created: number;
+    /** Of those, how many were freed before tracking ended */
+    freed: number;
+    suspects: number;
+  };
+  suspects: TrackedTexture[];
+}
+
+export interface TextureImage {
+  index: number;
+  label?: string;
+  width?: number;
+  height?: number;
+  /** Base64-encoded PNG */
+  data?: string;
+  error?: string;
+}
+
+export interface ContactSheet {
+  count: number;
+  width: number;
+  height: number;
+  /** Base64-encoded PNG */
+  data: string;
+}
+
 export interface RenderInstruction {
   type: string;
   action: string;
@@ -102,24 +180,72 @@ export interface FullDebugData {
   instructions: InstructionData | null;
 }
 
+/** Render pass encoder activity, counted on WebGPU renderers only */
+export interface GpuCounters {
+  pipelineSwitches: number;
+  bindGroupChanges: number;
+  renderPasses: number;
+}
+
+export interface PipeTiming extends Partial<GpuCounters> {
+  /** Milliseconds spent in the pipe, including nested pipes */
+  time: number;
+  calls: number;
+  /** Draw calls issued by the pipe itself (nested pipes count their own) */
+  drawCalls: number;
+}
+
+export interface DrawOrderEntry extends Partial<GpuCounters> {
+  pipe: string;
+  drawCalls: number;
+  time: number;
+}
+
+/**
+ * One step of the captured frame. v8: an entry of the stage's instruction set,
+ * nested render groups under children. v7: a profiled call in the render loop
+ * (plugin flush/render, filter or mask push/pop), nesting given by depth.
+ * Type-specific details (textures, filters, renderables) are extra properties.
+ */
+export interface CaptureInstruction {
+  index: number;
+  type: string;
+  action: string;
+  depth: number;
+  children?: CaptureInstruction[];
+  [detail: string]: unknown;
+}
+
 export interface CaptureData {
-  renderTime: {
-    avg: number;
-    min: number;
-    max: number;
-    samples: number;
-  };
+  /** Which render loop was profiled: v8 render pipes or v7 object renderers */
+  pipeline: 'v8' | 'v7';
+  renderTime: number;
+  profiledRenderTime: number;
   drawCalls: number;
+  /** Frame totals from the GPU render pass encoder; null on WebGL */
+  gpu: GpuCounters | null;
   instructionCount: number;
+  totals: {
+    containers: number;
+    sprites: number;
+    graphics: number;
+    meshes: number;
+    texts: number;
+    tilingSprites: number;
+    nineSliceSprites: number;
+    filters: number;
+    masks: number;
+  };
+  /** Keyed by render pipe (v8) or plugin/system (v7: batch, filter, mask, ...); 'direct' for draws outside any */
+  pipeTimings: Record<string, PipeTiming>;
+  instructions: CaptureInstruction[];
+  drawOrder: DrawOrderEntry[];
+  /** JS heap from performance.memory in whole megabytes (MiB); null outside Chromium */
   memory: {
     usedJSHeapSize: number;
     totalJSHeapSize: number;
     jsHeapSizeLimit: number;
   } | null;
-  sceneComplexity: {
-    totalNodes: number;
-    visibleNodes: number;
-  };
   canvas: {
     width: number;
     height: number;
@@ -127,10 +253,67 @@ export interface CaptureData {
   };
 }
 
+/** Times are performance.now() milliseconds in the page */
+export interface RecordedFrame {
+  index: number;
+  start: number;
+  duration: number;
+  drawCalls: number;
+  gpu: GpuCounters | null;
+  /** performance.memory.usedJSHeapSize after the frame; null outside Chromium */
+  heapUsed: number | null;
+}
+
+export interface RecordedSpan extends Partial<GpuCounters> {
+  frame: number;
+  /** Render pipe (v8) or plugin/system (v7) */
+  pipe: string;
+  start: number;
+  duration: number;
+  /** Nesting level, 0 for spans directly under the frame */
+  depth: number;
+  drawCalls: number;
+}
+
+/** A v8 InstructionSet.reset, i.e. a render group rebuilding its instructions */
+export interface RecordedRebuild {
+  /** Frame being rendered, or null when rebuilt outside render */
+  frame: number | null;
+  time: number;
+  instructionSet: number | null;
+}
+
+export interface FrameRecording {
+  pipeline: 'v8' | 'v7';
+  startedAt: string;
+  startTime: number;
+  endTime: number;
+  /** False when the app stopped rendering before all frames were recorded */
+  complete: boolean;
+  frames: RecordedFrame[];
+  spans: RecordedSpan[];
+  rebuilds: RecordedRebuild[];
+}
+
+/** loop: busy-loop renders (raw render cost); realtime: the app's own rAF frames */
+export type BenchmarkMode = 'loop' | 'realtime';
+
+export interface RealtimeStats {
+  /** Display refresh interval estimated from the fastest frames (ms) */
+  refreshInterval: number;
+  droppedFrames: number;
+  /** Long tasks (>50ms) during the run; null where PerformanceObserver lacks 'longtask' */
+  longTasks: { count: number; totalTime: number; max: number } | null;
+  /** Average ms per frame; ticker is null when the app has no ticker to observe */
+  split: { ticker: number | null; render: number; idle: number };
+}
+
 export interface BenchmarkData {
+  mode: BenchmarkMode;
   duration: number;
   frameCount: number;
   fps: number;
+  /** Render time per frame (loop) or interval between frames (realtime) */
   frameTime: {
     avg: number;
     min: number;
@@ -139,17 +322,229 @@ export interface BenchmarkData {
     p95: number;
     p99: number;
   };
+  /** Draw calls of one frame of the benchmarked scene */
+  drawCalls: number;
+  /** Number of runs aggregated (by median) into this result */
+  runs?: number;
+  realtime?: RealtimeStats;
 }
 
+export interface ScreenshotOptions {
+  /** Node id or name path; defaults to the whole canvas */
+  nodeId?: string;
+  /**
+   * extract: render through the renderer's extract system (node only, no overlapping content)
+   * page: Page.captureScreenshot cropped to the canvas or node bounds (what is on screen)
+   */
+  method?: 'extract' | 'page';
+}
+
+export interface Screenshot {
+  method: 'extract' | 'page';
+  /** Base64-encoded PNG */
+  data: string;
+  width: number;
+  height: number;
+}
+
+export interface PickedNode {
+  id: string;
+  /** Name path, as produced by flattenSceneGraph */
+  path: string;
+  type: string;
+  eventMode: string;
+  hitArea: ({ type: string } & Record<string, number | string>) | null;
+  bounds: { x: number; y: number; width: number; height: number };
+  /** Interactive node whose hit goes to another node that is not an ancestor or descendant */
+  blocked: boolean;
+  blockedBy: string | null;
+}
+
+export interface PickResult {
+  x: number;
+  y: number;
+  /** Topmost interactive node according to the app's event system */
+  target: PickedNode | null;
+  /** Every visible node whose bounds contain the point, topmost first (with `all`) */
+  stack?: PickedNode[];
+}
+
+export interface InteractionOptions {
+  /** Send touch events instead of mouse events */
+  touch?: boolean;
+  /** Intermediate move events for drag */
+  steps?: number;
+  /** Time to wait for the app to react before collecting events */
+  settleMs?: number;
+}
+
+export interface InteractionResult {
+  target: { id: string; path: string };
+  /** Interaction point in renderer screen units */
+  point: { x: number; y: number };
+  /** Same point in viewport CSS pixels, as sent over Input.dispatch* */
+  client: { x: number; y: number };
+  /** Topmost interactive node at the point before input was sent */
+  hitTarget: { id: string; path: string } | null;
+  covered: boolean;
+  /** Federated events delivered to the target node */
+  events: Array<{ type: string; phase: number; time: number }>;
+  /** Exceptions thrown by event handlers during the interaction */
+  errors: Array<{ message: string; event: string | null; nodeId: string | null; stack?: string }>;
+  /** received: target got events without errors; covered: another node takes the hit;
+   * handler-error: a handler threw; no-events: nothing reached the target */
+  outcome: 'received' | 'covered' | 'handler-error' | 'no-events';
+}
+
+/** Node id / name path, or a point in renderer screen units */
+export type InteractionPoint = string | { x: number; y: number };
+
+type Point = { x: number; y: number };
+
+export interface HighlightResult {
+  highlighted: Array<{ id: string; path: string }>;
+  durationMs: number;
+}
+
+/** Index into the discovered apps, canvas id, or CSS selector matching the app's canvas */
+export type AppSelector = number | string;
+
+export interface ConnectOptions extends CDPOptions {
+  /** App to inspect on pages with several PixiJS apps (default: the first found) */
+  app?: AppSelector;
+}
+
+export interface AppInfo {
+  index: number;
+  selected: boolean;
+  /** Where the app was discovered: devtools/global registration or the init hooks */
+  origin: 'devtools' | 'global' | 'hook';
+  canvasId: string | null;
+  selector: string | null;
+  width: number | null;
+  height: number | null;
+  rendererType: 'webgl' | 'webgl2' | 'webgpu' | null;
+  version: string;
+  hasStage: boolean;
+}
+
+export type SceneEventType = 'childAdded' | 'childRemoved' | 'destroyed' | 'reparented' | 'labelChanged';
+
+/** A structural change seen between two frames; ids and paths as in getSceneGraph */
+export interface SceneEvent {
+  type: SceneEventType;
+  /** Frames since watching started */
+  frame: number;
+  time: number;
+  id: string;
+  name: string;
+  nodeType: string;
+  /** Current parent; for removed nodes the parent they were removed from */
+  parentId: string | null;
+  path: string;
+  /** childAdded/childRemoved/destroyed: nodes in the subtree, reported only at its root */
+  descendants?: number;
+  /** reparented */
+  fromParentId?: string | null;
+  fromPath?: string;
+  /** labelChanged: previous label */
+  from?: string;
+}
+
+/** Why a watch ended without being stopped: the page navigated, or the page-side watch is gone */
+export type WatchEndReason = 'navigated' | 'stopped';
+
+export type WatchOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+/** Stop condition for watchNode, e.g. { field: 'alpha', op: '==', value: 0 } */
+export interface WatchCondition {
+  field: string;
+  op: WatchOperator;
+  value: number | boolean | string;
+}
+
+export interface WatchNodeOptions {
+  /** Only report frames where a watched value changed (the first frame is always reported) */
+  onChange?: boolean;
+  /** Stop as soon as any condition holds */
+  until?: WatchCondition[];
+}
+
+/** Watched values of one node in one frame */
+export interface NodeSample {
+  /** Frames since watching started */
+  frame: number;
+  time: number;
+  id: string;
+  /** By field path; points as { x, y } */
+  values: Record<string, unknown>;
+  /** Set on the last sample */
+  done?: true;
+  reason?: 'until' | 'destroyed' | 'removed';
+}
+
+/** Properties getSceneGraph can include besides id, name, type, depth and children */
+export const SCENE_FIELDS: Array<keyof SceneNode> = [
+  'uid', 'visible', 'alpha', 'position', 'scale', 'rotation', 'pivot', 'anchor', 'width', 'height',
+  'worldVisible', 'worldAlpha', 'zIndex', 'sortableChildren', 'interactive', 'texture', 'tint', 'blendMode', 'text',
+  'fillStyle', 'lineStyle', 'isRenderGroup', 'mask', 'filters',
+];
+
+export { NODE_PROPERTY_TYPES };
+
+export type NodeProperty = keyof typeof NODE_PROPERTY_TYPES;
+
+export interface NodeMutation {
+  id: string;
+  path: string;
+  before: Partial<Record<NodeProperty, unknown>>;
+  after: Partial<Record<NodeProperty, unknown>>;
+}
+
+/** How often watches tell the page their client is still there */
+const WATCH_HEARTBEAT_MS = 1000;
+
 export class PixiDebugger {
   private client: CDPClient | null = null;
   private injected = false;
+  private app: AppSelector | null = null;
+  private channels = new Map<string, (data: unknown) => void>();
+  private bindingAdded = false;
+
+  async connect(options: ConnectOptions = {}): Promise<void> {
+    const client = await connect(options);
+    this.client = client;
+    this.app = options.app ?? null;
+    client.on('disconnect', () => {
+      if (this.client !== client) return;
+      this.client = null;
+      this.injected = false;
+      this.bindingAdded = false;
+      this.channels.clear();
+    });
 
-  async connect(options: CDPOptions = {}): Promise<void> {
-    this.client = await connect(options);
+    // Catch apps created while later documents load, not just the globally
+    // registered one; the script is tied to this session, so it only helps
+    // connections that outlive a reload (daemon, MCP, launch)
+    await client.Page.addScriptToEvaluateOnNewDocument({ source: APP_HOOK_SCRIPT }).catch(() => {});
     await this.inject();
   }
 
+  /** False once disconnect() was called or the browser closed the connection */
+  get isConnected(): boolean {
+    return this.client !== null;
+  }
+
+  /** Re-inject the debug API if the page navigated or reloaded since connecting */
+  async ensureInjected(): Promise<void> {
+    this.ensureConnected();
+    const type = await evaluate<string>(this.client!, 'typeof window.__PIXI_CLI_DEBUG__');
+    if (type === 'undefined') {
+      this.injected = false;
+      await this.inject();
+    }
+  }
+
   async disconnect(): Promise<void> {
     if (this.client) {
       await this.client.close();
@@ -162,6 +557,34 @@ export class PixiDebugger {
     if (!this.client || this.injected) return;
     await evaluate(this.client, INJECT_SCRIPT);
     this.injected = true;
+
+    // Injection resets page-side state, so re-apply the app selection
+    if (this.app !== null) {
+      const result = await evaluate<{ error?: string }>(this.client, `window.__PIXI_CLI_DEBUG__.selectApp(${JSON.stringify(this.app)})`);
+      if (result.error) {
+        throw new Error(result.error);
+      }
+    }
+  }
+
+  /** PixiJS apps found on the page (canvas, size, renderer type) */
+  async listApps(): Promise<AppInfo[]> {
+    this.ensureConnected();
+    return evaluate<AppInfo[]>(this.client!, 'window.__PIXI_CLI_DEBUG__.listApps()');
+  }
+
+  /** Scope all following calls to one app; null selects the first app again */
+  async selectApp(app: AppSelector | null): Promise<{ selected: AppInfo | null }> {
+    this.ensureConnected();
+    const result = await evaluate<{ selected: AppInfo | null } | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.selectApp(${JSON.stringify(app)})`
+    );
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+    this.app = app;
+    return result;
   }
 
   async getInfo(): Promise<PixiInfo> {
@@ -169,9 +592,234 @@ export class PixiDebugger {
     return evaluate<PixiInfo>(this.client!, 'window.__PIXI_CLI_DEBUG__.getInfo()');
   }
 
-  async getSceneGraph(): Promise<SceneNode> {
+  /**
+   * Fetch the scene graph, or part of it. Large scenes can be walked lazily by
+   * fetching with a small maxDepth and re-requesting nodes that report a childCount.
+   */
+  async getSceneGraph(options: SceneGraphOptions = {}): Promise<SceneNode> {
+    this.ensureConnected();
+    return evaluate<SceneNode>(this.client!, `window.__PIXI_CLI_DEBUG__.getSceneGraph(${JSON.stringify(options)})`);
+  }
+
+  /** Load a URL in the inspected page; the debug API is re-injected on the next ensureInjected() */
+  async navigate(url: string): Promise<void> {
+    this.ensureConnected();
+    const { errorText } = await this.client!.Page.navigate({ url });
+    if (errorText) {
+      throw new Error(`Navigation to ${url} failed: ${errorText}`);
+    }
+  }
+
+  /** URL of the inspected page */
+  async getUrl(): Promise<string> {
+    this.ensureConnected();
+    return evaluate<string>(this.client!, 'location.href');
+  }
+
+  /** Whether a page expression is truthy; promises are awaited (e.g. a readiness check) */
+  async evaluateCondition(expression: string): Promise<boolean> {
+    this.ensureConnected();
+    return evaluate<boolean>(this.client!, `(async () => !!(await (${expression})))()`);
+  }
+
+  /** Scene graph plus page metadata, suitable for saving and diffing later */
+  async getSnapshot(): Promise<SceneSnapshot> {
+    this.ensureConnected();
+    const [root, info, url, timeOrigin] = await Promise.all([
+      this.getSceneGraph(),
+      this.getInfo(),
+      this.getUrl(),
+      // Differs for every page load, so snapshots can tell whether v8 uids are comparable
+      evaluate<number>(this.client!, 'performance.timeOrigin'),
+    ]);
+
+    return {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      url,
+      pixiVersion: info.version,
+      session: `${url}@${timeOrigin}`,
+      root,
+    };
+  }
+
+  /**
+   * Set a single property on a node, addressed by id (node_N) or name path.
+   * Returns the previous and new values so the change can be reverted.
+   */
+  async setNodeProperty(id: string, path: NodeProperty, value: unknown): Promise<NodeMutation> {
+    return this.setNodeProperties(id, { [path]: value });
+  }
+
+  async setNodeProperties(id: string, values: Partial<Record<NodeProperty, unknown>>): Promise<NodeMutation> {
+    this.ensureConnected();
+
+    for (const [path, value] of Object.entries(values)) {
+      const expected = NODE_PROPERTY_TYPES[path as NodeProperty];
+      if (!expected) {
+        throw new Error(`Property not settable: ${path} (allowed: ${Object.keys(NODE_PROPERTY_TYPES).join(', ')})`);
+      }
+      if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+        throw new Error(`Property ${path} expects ${expected}, got ${JSON.stringify(value)}`);
+      }
+    }
+
+    const result = await evaluate<NodeMutation | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.setProperties(${JSON.stringify(id)}, ${JSON.stringify(values)})`
+    );
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+    return result;
+  }
+
+  async screenshot(options: ScreenshotOptions = {}): Promise<Screenshot> {
     this.ensureConnected();
-    return evaluate<SceneNode>(this.client!, 'window.__PIXI_CLI_DEBUG__.getSceneGraph()');
+    const method = options.method ?? (options.nodeId ? 'extract' : 'page');
+
+    const result = await evaluate<
+      { data: string; width: number; height: number } | { clip: { x: number; y: number; width: number; height: number } } | { error: string }
+    >(this.client!, `window.__PIXI_CLI_DEBUG__.screenshot(${JSON.stringify({ ...options, method })})`);
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    if ('data' in result) {
+      return { method, ...result };
+    }
+
+    const { data } = await this.client!.Page.captureScreenshot({
+      format: 'png',
+      clip: { ...result.clip, scale: 1 },
+      captureBeyondViewport: true,
+    });
+    // Width and height live in the PNG IHDR chunk
+    const header = Buffer.from(data.slice(0, 32), 'base64');
+    return { method, data, width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  }
+
+  /** Hit-test a point given in renderer screen coordinates */
+  async pick(x: number, y: number, all = false): Promise<PickResult> {
+    this.ensureConnected();
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      throw new Error(`Invalid point: ${x}, ${y}`);
+    }
+    return evaluate<PickResult>(this.client!, `window.__PIXI_CLI_DEBUG__.pick(${x}, ${y}, ${all})`);
+  }
+
+  /** Click (or tap) the centre of a node's global bounds with real browser input */
+  async click(ref: string, options: InteractionOptions = {}): Promise<InteractionResult> {
+    return this.interact(ref, options, async (at) => {
+      if (options.touch) {
+        await this.client!.Input.dispatchTouchEvent({ type: 'touchStart', touchPoints: [at] });
+        await this.client!.Input.dispatchTouchEvent({ type: 'touchEnd', touchPoints: [] });
+        return;
+      }
+      await this.client!.Input.dispatchMouseEvent({ type: 'mouseMoved', ...at });
+      await this.client!.Input.dispatchMouseEvent({ type: 'mousePressed', ...at, button: 'left', buttons: 1, clickCount: 1 });
+      await this.client!.Input.dispatchMouseEvent({ type: 'mouseReleased', ...at, button: 'left', buttons: 0, clickCount: 1 });
+    });
+  }
+
+  /** Move the pointer onto a node */
+  async hover(ref: string, options: InteractionOptions = {}): Promise<InteractionResult> {
+    return this.interact(ref, options, async (at) => {
+      await this.client!.Input.dispatchMouseEvent({ type: 'mouseMoved', ...at });
+    });
+  }
+
+  /** Press on a node, move to another node or point, and release */
+  async drag(from: string, to: InteractionPoint, options: InteractionOptions = {}): Promise<InteractionResult> {
+    this.ensureConnected();
+    const destination = await evaluate<{ client: Point } | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.locate(${JSON.stringify(to)})`
+    );
+    if ('error' in destination) {
+      throw new Error(destination.error);
+    }
+
+    const steps = Math.max(1, options.steps ?? 10);
+    const end = destination.client;
+
+    return this.interact(from, options, async (start) => {
+      const lerp = (i: number) => ({
+        x: start.x + (end.x - start.x) * (i / steps),
+        y: start.y + (end.y - start.y) * (i / steps),
+      });
+
+      if (options.touch) {
+        await this.client!.Input.dispatchTouchEvent({ type: 'touchStart', touchPoints: [start] });
+        for (let i = 1; i <= steps; i++) {
+          await this.client!.Input.dispatchTouchEvent({ type: 'touchMove', touchPoints: [lerp(i)] });
+        }
+        await this.client!.Input.dispatchTouchEvent({ type: 'touchEnd', touchPoints: [] });
+        return;
+      }
+
+      await this.client!.Input.dispatchMouseEvent({ type: 'mouseMoved', ...start });
+      await this.client!.Input.dispatchMouseEvent({ type: 'mousePressed', ...start, button: 'left', buttons: 1, clickCount: 1 });
+      for (let i = 1; i <= steps; i++) {
+        await this.client!.Input.dispatchMouseEvent({ type: 'mouseMoved', ...lerp(i), button: 'left', buttons: 1 });
+      }
+      await this.client!.Input.dispatchMouseEvent({ type: 'mouseReleased', ...end, button: 'left', buttons: 0, clickCount: 1 });
+    });
+  }
+
+  private async interact(
+    ref: string,
+    options: InteractionOptions,
+    perform: (client: Point) => Promise<void>
+  ): Promise<InteractionResult> {
+    this.ensureConnected();
+
+    const begin = await evaluate<Omit<InteractionResult, 'events' | 'errors' | 'outcome'> | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.beginInteraction(${JSON.stringify(ref)})`
+    );
+    if ('error' in begin) {
+      throw new Error(begin.error);
+    }
+
+    let recorded: Pick<InteractionResult, 'events' | 'errors'>;
+    try {
+      await perform(begin.client);
+      await new Promise(resolve => setTimeout(resolve, options.settleMs ?? 100));
+    } finally {
+      recorded = await evaluate<Pick<InteractionResult, 'events' | 'errors'>>(
+        this.client!,
+        'window.__PIXI_CLI_DEBUG__.endInteraction()'
+      );
+    }
+
+    const outcome: InteractionResult['outcome'] = recorded.errors.length > 0
+      ? 'handler-error'
+      : recorded.events.length > 0
+        ? 'received'
+        : begin.covered ? 'covered' : 'no-events';
+
+    return { ...begin, ...recorded, outcome };
+  }
+
+  /**
+   * Draw an outline of each node's transformed bounds, pivot and anchor over the canvas.
+   * With durationMs 0 the overlay stays until clearHighlight().
+   */
+  async highlight(ids: string[], durationMs = 3000): Promise<HighlightResult> {
+    this.ensureConnected();
+    return evaluate<HighlightResult>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.highlight(${JSON.stringify(ids)}, ${durationMs})`
+    );
+  }
+
+  /** Remove highlight overlays; returns how many were removed */
+  async clearHighlight(): Promise<{ cleared: number }> {
+    this.ensureConnected();
+    return evaluate<{ cleared: number }>(this.client!, 'window.__PIXI_CLI_DEBUG__.clearHighlight()');
   }
 
   async getStats(): Promise<SceneStats> {
@@ -184,9 +832,31 @@ export class PixiDebugger {
     return evaluate<RenderingInfo>(this.client!, 'window.__PIXI_CLI_DEBUG__.getRendering()');
   }
 
-  async getTextures(): Promise<TextureInfo[]> {
+  /** List managed textures; `all` also includes GPU-only sources such as render textures */
+  async getTextures(options: { all?: boolean } = {}): Promise<TextureInfo[]> {
+    this.ensureConnected();
+    return evaluate<TextureInfo[]>(this.client!, `window.__PIXI_CLI_DEBUG__.getTextures(${JSON.stringify(options)})`);
+  }
+
+  /** Watch managed textures for durationMs and report likely leaks */
+  async trackTextures(durationMs = 10000): Promise<TextureTracking | { error: string }> {
+    this.ensureConnected();
+    return evaluate<TextureTracking | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.trackTextures(${durationMs})`
+    );
+  }
+
+  /** Read back texture contents as PNGs, by managedTextures index */
+  async exportTextures(indices: number[]): Promise<TextureImage[]> {
+    this.ensureConnected();
+    return evaluate<TextureImage[]>(this.client!, `window.__PIXI_CLI_DEBUG__.exportTextures(${JSON.stringify(indices)})`);
+  }
+
+  /** Tile every managed texture into a single labelled PNG */
+  async getTextureContactSheet(cellSize = 128): Promise<ContactSheet> {
     this.ensureConnected();
-    return evaluate<TextureInfo[]>(this.client!, 'window.__PIXI_CLI_DEBUG__.getTextures()');
+    return evaluate<ContactSheet>(this.client!, `window.__PIXI_CLI_DEBUG__.textureContactSheet(${cellSize})`);
   }
 
   async getInstructions(): Promise<InstructionData | null> {
@@ -199,14 +869,26 @@ export class PixiDebugger {
     return evaluate<FullDebugData>(this.client!, 'window.__PIXI_CLI_DEBUG__.getAll()');
   }
 
-  async capture(): Promise<CaptureData> {
+  async capture(): Promise<CaptureData | { error: string }> {
+    this.ensureConnected();
+    return evaluate<CaptureData | { error: string }>(this.client!, 'window.__PIXI_CLI_DEBUG__.capture()');
+  }
+
+  /** Instrument the next frameCount frames the app renders on its own */
+  async record(frameCount = 300, timeoutMs = 30000): Promise<FrameRecording | { error: string }> {
     this.ensureConnected();
-    return evaluate<CaptureData>(this.client!, 'window.__PIXI_CLI_DEBUG__.capture()');
+    return evaluate<FrameRecording | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.record(${frameCount}, ${timeoutMs})`
+    );
   }
 
-  async benchmark(durationMs = 3000): Promise<BenchmarkData> {
+  async benchmark(durationMs = 3000, mode: BenchmarkMode = 'loop'): Promise<BenchmarkData | { error: string }> {
     this.ensureConnected();
-    return evaluate<BenchmarkData>(this.client!, `window.__PIXI_CLI_DEBUG__.benchmark(${durationMs})`);
+    return evaluate<BenchmarkData | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.benchmark(${durationMs}, ${JSON.stringify(mode)})`
+    );
   }
 
   async watchStats(intervalMs = 1000, callback: (stats: SceneStats & { fps?: number }) => void): Promise<() => void> {
@@ -277,6 +959,144 @@ export class PixiDebugger {
     };
   }
 
+  /**
+   * Stream structural scene changes (added, removed, destroyed, reparented,
+   * relabelled nodes), diffed in the page once per frame. Ends when the page
+   * navigates or the page-side watch is gone (onEnd says which); the returned
+   * function stops it explicitly.
+   */
+  async watchScene(callback: (event: SceneEvent) => void, onEnd?: (reason: WatchEndReason) => void): Promise<() => Promise<void>> {
+    const { id, unsubscribe } = await this.subscribe('scene', data => (data as SceneEvent[]).forEach(callback));
+    const result = await evaluate<{ watching: boolean; nodes: number } | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.watchScene(${JSON.stringify(id)})`
+    );
+    if ('error' in result) {
+      unsubscribe();
+      throw new Error(result.error);
+    }
+    const stopHeartbeat = this.heartbeat(id, (reason) => {
+      unsubscribe();
+      onEnd?.(reason);
+    });
+
+    return async () => {
+      stopHeartbeat();
+      unsubscribe();
+      if (this.client) {
+        await evaluate(this.client, `window.__PIXI_CLI_DEBUG__ && window.__PIXI_CLI_DEBUG__.unwatch(${JSON.stringify(id)})`);
+      }
+    };
+  }
+
+  /**
+   * Sample properties of a node (id or name path) every frame. The last sample
+   * has done set, when a stop condition holds or the node is destroyed or
+   * removed from the stage. Like watchScene, onEnd reports a watch that ended
+   * without such a sample; the returned function stops it earlier.
+   */
+  async watchNode(
+    ref: string,
+    fields: string[],
+    callback: (sample: NodeSample) => void,
+    options: WatchNodeOptions = {},
+    onEnd?: (reason: WatchEndReason) => void
+  ): Promise<() => Promise<void>> {
+    if (fields.length === 0) {
+      throw new Error('No properties to watch');
+    }
+
+    let stopHeartbeat = () => {};
+    const { id, unsubscribe } = await this.subscribe('watch', (data) => {
+      const sample = data as NodeSample;
+      if (sample.done) {
+        stopHeartbeat();
+        unsubscribe();
+      }
+      callback(sample);
+    });
+    const result = await evaluate<{ watching: boolean; id: string; path: string } | { error: string }>(
+      this.client!,
+      `window.__PIXI_CLI_DEBUG__.watchNode(${JSON.stringify(id)}, ${JSON.stringify(ref)}, ${JSON.stringify(fields)}, ${JSON.stringify(options)})`
+    );
+    if ('error' in result) {
+      unsubscribe();
+      throw new Error(result.error);
+    }
+    stopHeartbeat = this.heartbeat(id, (reason) => {
+      unsubscribe();
+      onEnd?.(reason);
+    });
+
+    return async () => {
+      stopHeartbeat();
+      unsubscribe();
+      if (this.client) {
+        await evaluate(this.client, `window.__PIXI_CLI_DEBUG__ && window.__PIXI_CLI_DEBUG__.unwatch(${JSON.stringify(id)})`);
+      }
+    };
+  }
+
+  /**
+   * Keep a page-side watch alive: the page ends watches that miss heartbeats
+   * (their client was killed). Reports a watch that ends on its own: the
+   * page navigated, or the watch is gone from the page.
+   */
+  private heartbeat(id: string, onEnd: (reason: WatchEndReason) => void): () => void {
+    const client = this.client!;
+    let ended = false;
+    const end = (reason: WatchEndReason) => {
+      if (ended) return;
+      stop();
+      onEnd(reason);
+    };
+    const onNavigated = () => end('navigated');
+    const timer = setInterval(async () => {
+      try {
+        const { watching } = await evaluate<{ watching: boolean }>(
+          client,
+          `window.__PIXI_CLI_DEBUG__ ? window.__PIXI_CLI_DEBUG__.keepWatching(${JSON.stringify(id)}) : { watching: false }`
+        );
+        if (!watching && this.client === client) end('stopped');
+      } catch {
+        // Disconnecting; nothing left to keep alive
+      }
+    }, WATCH_HEARTBEAT_MS);
+    const stop = () => {
+      ended = true;
+      clearInterval(timer);
+      client.off('Runtime.executionContextsCleared', onNavigated);
+    };
+
+    client.on('Runtime.executionContextsCleared', onNavigated);
+    return stop;
+  }
+
+  /**
+   * Receive what the injected script pushes with emit(id, data) for a new
+   * subscription id. Every CDP session that added the binding sees every
+   * call, so the id keeps concurrent clients (other CLI processes) apart.
+   */
+  private async subscribe(kind: string, handler: (data: unknown) => void): Promise<{ id: string; unsubscribe: () => void }> {
+    this.ensureConnected();
+
+    if (!this.bindingAdded) {
+      await this.client!.Runtime.enable();
+      await this.client!.Runtime.addBinding({ name: EMIT_BINDING });
+      this.client!.on('Runtime.bindingCalled', (params) => {
+        const { name, payload } = params as { name: string; payload: string };
+        if (name !== EMIT_BINDING) return;
+        const message = JSON.parse(payload) as { channel: string; data: unknown };
+        this.channels.get(message.channel)?.(message.data);
+      });
+      this.bindingAdded = true;
+    }
+
+    const id = `${kind}:${randomUUID()}`;
+    this.channels.set(id, handler);
+    return { id, unsubscribe: () => { this.channels.delete(id); } };
+  }
+
   async clearConsole(): Promise<void> {
     this.ensureConnected();
     await this.client!.Log.clear();
@@ -0,0 +1,197 @@
+// Output formats for command results: JSON, NDJSON, YAML, aligned tables,
+// CSV, and an indented tree for scene graphs
+
+export const OUTPUT_FORMATS = ['json', 'ndjson', 'tree', 'table', 'csv', 'yaml'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** How a command's result maps onto the row and tree formats */
+export interface OutputView {
+  /** Rows for table, csv and ndjson; defaults to the result when it is an array */
+  rows?: unknown[];
+  /** Table and csv columns when none are requested; defaults to every key in the rows */
+  columns?: string[];
+  /** Renders the tree format; other results are shown as YAML */
+  tree?: () => string;
+}
+
+/** Scene node fields used by the tree format */
+export interface TreeNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  alpha?: number;
+  children?: TreeNode[];
+  childCount?: number;
+}
+
+/** Widest text cell in table output; longer values are cut with an ellipsis */
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Render a result. Row formats (table, csv, ndjson) use the view's rows; a
+ * result without rows becomes key/value rows for table and csv and a single
+ * line for ndjson. `columns` are dotted paths into each row.
+ */
+export function formatOutput(data: unknown, format: OutputFormat, view: OutputView = {}, columns?: string[]): string {
+  const rows = view.rows ?? (Array.isArray(data) ? data : null);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(data, null, 2);
+    case 'yaml':
+      return toYaml(data);
+    case 'tree':
+      return view.tree ? view.tree() : toYaml(data);
+    case 'ndjson':
+      if (!rows) return JSON.stringify(data);
+      return rows.map(row => JSON.stringify(columns ? project(row, columns) : row)).join('\n');
+    case 'table':
+    case 'csv': {
+      const tableRows = rows ?? Object.entries(flatten(data)).map(([key, value]) => ({ key, value }));
+      const flat = tableRows.map(row => flatten(row));
+      const keys = columns ?? (rows ? view.columns : undefined) ?? [...new Set(flat.flatMap(row => Object.keys(row)))];
+      return format === 'csv' ? toCsv(flat, keys) : toTable(flat, keys);
+    }
+  }
+}
+
+/** Indented scene tree: type, quoted label, id, and markers for hidden or translucent nodes */
+export function formatSceneTree(root: TreeNode): string {
+  const lines: string[] = [];
+
+  const visit = (node: TreeNode, prefix: string, connector: string, childPrefix: string) => {
+    const markers: string[] = [];
+    if (node.visible === false) markers.push('hidden');
+    if (node.alpha !== undefined && node.alpha < 1) markers.push(`alpha ${Number(node.alpha.toFixed(3))}`);
+    const suffix = markers.length ? `  [${markers.join(', ')}]` : '';
+    lines.push(`${prefix}${connector}${node.type} ${JSON.stringify(node.name)}  ${node.id}${suffix}`);
+
+    const children = node.children ?? [];
+    const elided = node.childCount !== undefined && children.length === 0 ? node.childCount : 0;
+    children.forEach((child, i) => {
+      const last = i === children.length - 1 && !elided;
+      visit(child, prefix + childPrefix, last ? '└─ ' : '├─ ', last ? '   ' : '│  ');
+    });
+    if (elided) {
+      lines.push(`${prefix}${childPrefix}└─ … ${elided} ${elided === 1 ? 'child' : 'children'}`);
+    }
+  };
+
+  visit(root, '', '', '');
+  return lines.join('\n');
+}
+
+export function toYaml(value: unknown): string {
+  return yamlBlock(value, '').join('\n');
+}
+
+function yamlBlock(value: unknown, indent: string): string[] {
+  if (!isNested(value)) {
+    const [first, ...rest] = yamlScalar(value, indent);
+    return [indent + first, ...rest];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => nestedEntry(indent, '- ', item));
+  }
+  return Object.entries(value)
+    .filter(([, v]) => v !== undefined)
+    .flatMap(([key, v]) => nestedEntry(indent, `${yamlKey(key)}:`, v));
+}
+
+/** A list item or mapping entry; nested values continue on the following lines */
+function nestedEntry(indent: string, lead: string, value: unknown): string[] {
+  const inner = indent + '  ';
+  const item = lead === '- ';
+  if (isNested(value)) {
+    const lines = yamlBlock(value, inner);
+    // List items put the first nested line after the dash, mappings start below the key
+    return item
+      ? [indent + lead + lines[0].slice(inner.length), ...lines.slice(1)]
+      : [indent + lead, ...lines];
+  }
+  const [first, ...rest] = yamlScalar(value, inner);
+  return [indent + lead + (item ? '' : ' ') + first, ...rest];
+}
+
+/** Scalar as a first line plus continuation lines (multi-line strings become literal blocks) */
+function yamlScalar(value: unknown, indent: string): string[] {
+  if (value === null || value === undefined) return ['null'];
+  if (Array.isArray(value)) return ['[]'];
+  if (isPlainObject(value)) return ['{}'];
+  if (typeof value !== 'string') return [String(value)];
+  if (value.includes('\n') && !/^\s/.test(value)) {
+    return ['|-', ...value.split('\n').map(line => (line ? indent + line : ''))];
+  }
+  const plain = value !== ''
+    && !/^[\s\-?:,[\]{}#&*!|>'"%@`]|[\s:]$|: | #|\n/.test(value)
+    && !/^(true|false|null|~|yes|no|on|off|-?[\d.]+(e[+-]?\d+)?|0x[\da-f]+)$/i.test(value);
+  return [plain ? value : JSON.stringify(value)];
+}
+
+function yamlKey(key: string): string {
+  return /^[\w./-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function toTable(rows: Array<Record<string, unknown>>, columns: string[]): string {
+  const cells = rows.map(row => columns.map(column => truncate(cellText(row[column]))));
+  const numeric = columns.map((_, i) => rows.length > 0 && rows.every((row, r) => typeof row[columns[i]] === 'number' || cells[r][i] === ''));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(r => r[i].length)));
+  const line = (values: string[]) => values
+    .map((value, i) => (numeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i])))
+    .join('  ')
+    .trimEnd();
+
+  return [
+    line(columns),
+    widths.map(w => '-'.repeat(w)).join('  '),
+    ...cells.map(line),
+  ].join('\n');
+}
+
+function toCsv(rows: Array<Record<string, unknown>>, columns: string[]): string {
+  const quote = (text: string) => (/[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  return [columns, ...rows.map(row => columns.map(column => cellText(row[column])))]
+    .map(values => values.map(quote).join(','))
+    .join('\n');
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function truncate(text: string): string {
+  const single = text.replace(/\s*\n\s*/g, ' ');
+  return single.length > MAX_CELL_WIDTH ? single.slice(0, MAX_CELL_WIDTH - 1) + '…' : single;
+}
+
+/** Nested plain objects as dotted keys; arrays stay whole */
+function flatten(value: unknown, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    out[prefix || 'value'] = value;
+    return out;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(v) && Object.keys(v).length > 0) flatten(v, path, out);
+    else out[path] = v;
+  }
+  return out;
+}
+
+function project(row: unknown, columns: string[]): Record<string, unknown> {
+  const flat = flatten(row);
+  return Object.fromEntries(columns.map(column => [column, flat[column] ?? null]));
+}
+
+/** Non-empty arrays and objects; empty ones print inline as [] and {} */
+function isNested(value: unknown): value is unknown[] | Record<string, unknown> {
+  return Array.isArray(value) ? value.length > 0 : isPlainObject(value) && Object.keys(value).length > 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
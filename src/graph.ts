@@ -0,0 +1,256 @@
+// Scene graph export to Graphviz DOT and Mermaid flowcharts, for design
+// reviews and docs
+
+import type { SceneNode } from './debugger.js';
+
+export type GraphFormat = 'dot' | 'mermaid';
+
+export interface GraphExportOptions {
+  /**
+   * Collapse runs of at least this many consecutive leaf siblings of the same
+   * type into one "Sprite ×240" node; 0 keeps every node
+   */
+  collapse?: number;
+}
+
+type GraphNodeKind = 'node' | 'run' | 'filter' | 'mask';
+
+interface GraphNode {
+  key: string;
+  kind: GraphNodeKind;
+  type: string;
+  label: string[];
+  /** Invisible itself or below an invisible ancestor */
+  hidden: boolean;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'child' | 'mask' | 'filter';
+}
+
+/** A render group and the nodes it renders; the top level is the unnamed outer group */
+interface GraphCluster {
+  key: string;
+  label: string;
+  nodes: GraphNode[];
+  clusters: GraphCluster[];
+}
+
+interface GraphModel {
+  top: GraphCluster;
+  edges: GraphEdge[];
+}
+
+/** Fill colours by node type */
+const TYPE_COLORS: Record<string, string> = {
+  Container: '#dfe7f2',
+  Sprite: '#d4edda',
+  AnimatedSprite: '#c3e6cb',
+  TilingSprite: '#d1ecf1',
+  NineSliceSprite: '#d1ecf1',
+  Graphics: '#ffe5cc',
+  Mesh: '#e2d9f3',
+  Text: '#fff3cd',
+  BitmapText: '#fff3cd',
+  HTMLText: '#fff3cd',
+  ParticleContainer: '#f8d7da',
+};
+const DEFAULT_COLOR = '#eeeeee';
+const HIDDEN_FILL = '#f5f5f5';
+const HIDDEN_TEXT = '#a0a0a0';
+const FILTER_COLOR = '#fce4ec';
+const MASK_EDGE = '#c0392b';
+const FILTER_EDGE = '#8e44ad';
+const GROUP_BORDER = '#4a78c2';
+
+export function exportSceneGraph(root: SceneNode, format: GraphFormat, options: GraphExportOptions = {}): string {
+  const model = buildModel(root, options.collapse ?? 0);
+  return format === 'dot' ? toDot(model) : toMermaid(model);
+}
+
+function buildModel(root: SceneNode, collapse: number): GraphModel {
+  const top: GraphCluster = { key: 'scene', label: '', nodes: [], clusters: [] };
+  const edges: GraphEdge[] = [];
+  const seen = new Set<string>();
+  const masks = new Map<string, GraphNode>();
+
+  // Mask nodes keep their own graph node so mask edges have a target
+  const maskIds = new Set<string>();
+  const collectMasks = (node: SceneNode) => {
+    if (node.mask) maskIds.add(node.mask.id);
+    node.children?.forEach(collectMasks);
+  };
+  collectMasks(root);
+
+  const visit = (node: SceneNode, cluster: GraphCluster, hiddenParent: boolean) => {
+    const hidden = hiddenParent || node.visible === false;
+    if (node.isRenderGroup) {
+      const group: GraphCluster = { key: `group_${node.id}`, label: `render group: ${node.name}`, nodes: [], clusters: [] };
+      cluster.clusters.push(group);
+      cluster = group;
+    }
+
+    const label = node.name !== node.type ? [node.type, node.name] : [node.type];
+    if (node.childCount) label.push(`+${node.childCount} not fetched`);
+    cluster.nodes.push({ key: node.id, kind: 'node', type: node.type, label, hidden });
+    seen.add(node.id);
+
+    if (node.mask) {
+      edges.push({ from: node.id, to: node.mask.id, kind: 'mask' });
+      const { id, name, type } = node.mask;
+      masks.set(id, { key: id, kind: 'mask', type, label: name !== type ? [type, name] : [type], hidden: false });
+    }
+    node.filters?.forEach((filter, i) => {
+      const key = `${node.id}_filter_${i}`;
+      cluster.nodes.push({ key, kind: 'filter', type: 'Filter', label: [filter], hidden });
+      edges.push({ from: node.id, to: key, kind: 'filter' });
+    });
+
+    const children = node.children ?? [];
+    for (let i = 0; i < children.length;) {
+      const run = collapse > 0 ? siblingRun(children, i, maskIds) : 1;
+      if (run >= collapse && run > 1) {
+        const first = children[i];
+        const key = `${first.id}_run`;
+        const runHidden = hidden || first.visible === false;
+        cluster.nodes.push({ key, kind: 'run', type: first.type, label: [`${first.type} ×${run}`], hidden: runHidden });
+        edges.push({ from: node.id, to: key, kind: 'child' });
+        i += run;
+      } else {
+        edges.push({ from: node.id, to: children[i].id, kind: 'child' });
+        visit(children[i], cluster, hidden);
+        i++;
+      }
+    }
+  };
+
+  visit(root, top, false);
+
+  // Masks that are not part of the exported tree get a node of their own
+  for (const [id, mask] of masks) {
+    if (!seen.has(id)) top.nodes.push(mask);
+  }
+
+  return { top, edges };
+}
+
+/** Length of the run of plain leaf siblings starting at index that share type and visibility */
+function siblingRun(children: SceneNode[], index: number, maskIds: Set<string>): number {
+  const first = children[index];
+  if (!isPlainLeaf(first, maskIds)) return 1;
+  let end = index + 1;
+  while (end < children.length
+    && isPlainLeaf(children[end], maskIds)
+    && children[end].type === first.type
+    && (children[end].visible === false) === (first.visible === false)) {
+    end++;
+  }
+  return end - index;
+}
+
+function isPlainLeaf(node: SceneNode, maskIds: Set<string>): boolean {
+  return (node.children?.length ?? 0) === 0
+    && !node.childCount
+    && !node.mask
+    && !node.filters?.length
+    && !node.isRenderGroup
+    && !maskIds.has(node.id);
+}
+
+function fillColor(node: GraphNode): string {
+  if (node.hidden) return HIDDEN_FILL;
+  if (node.kind === 'filter') return FILTER_COLOR;
+  return TYPE_COLORS[node.type] ?? DEFAULT_COLOR;
+}
+
+function toDot(model: GraphModel): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  const lines = [
+    'digraph scene {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=10];',
+    '  edge [arrowsize=0.6];',
+  ];
+
+  const writeCluster = (cluster: GraphCluster, indent: string) => {
+    for (const node of cluster.nodes) {
+      const attrs = [
+        `label=${quote(node.label.join('\n'))}`,
+        `fillcolor=${quote(fillColor(node))}`,
+      ];
+      if (node.hidden) attrs.push(`fontcolor=${quote(HIDDEN_TEXT)}`, `color=${quote(HIDDEN_TEXT)}`);
+      if (node.kind === 'filter') attrs.push('shape=hexagon', 'style=filled');
+      if (node.kind === 'mask') attrs.push('style="rounded,filled,dashed"');
+      if (node.kind === 'run') attrs.push('shape=box3d', 'style=filled');
+      lines.push(`${indent}${quote(node.key)} [${attrs.join(', ')}];`);
+    }
+    for (const child of cluster.clusters) {
+      lines.push(`${indent}subgraph ${quote(`cluster_${child.key}`)} {`);
+      lines.push(`${indent}  label=${quote(child.label)}; style="rounded,dashed"; color=${quote(GROUP_BORDER)}; fontcolor=${quote(GROUP_BORDER)};`);
+      writeCluster(child, indent + '  ');
+      lines.push(`${indent}}`);
+    }
+  };
+  writeCluster(model.top, '  ');
+
+  for (const edge of model.edges) {
+    const attrs = edge.kind === 'mask'
+      ? ` [style=dashed, color=${quote(MASK_EDGE)}, fontcolor=${quote(MASK_EDGE)}, label="mask"]`
+      : edge.kind === 'filter'
+        ? ` [style=dotted, color=${quote(FILTER_EDGE)}, fontcolor=${quote(FILTER_EDGE)}, label="filter"]`
+        : '';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attrs};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function toMermaid(model: GraphModel): string {
+  const id = (key: string) => key.replace(/[^\w]/g, '_');
+  const text = (label: string[]) => `"${label.map(l => l.replace(/"/g, '#quot;')).join('<br/>')}"`;
+  const classes = new Map<string, string[]>();
+  const lines = ['flowchart LR'];
+
+  const writeCluster = (cluster: GraphCluster, indent: string) => {
+    for (const node of cluster.nodes) {
+      const shape = node.kind === 'filter'
+        ? `{{${text(node.label)}}}`
+        : node.kind === 'run'
+          ? `[[${text(node.label)}]]`
+          : `[${text(node.label)}]`;
+      lines.push(`${indent}${id(node.key)}${shape}`);
+
+      const className = node.hidden ? 'hidden' : node.kind === 'filter' ? 'filter' : node.kind === 'mask' ? 'mask' : node.type;
+      classes.set(className, [...(classes.get(className) ?? []), id(node.key)]);
+    }
+    for (const child of cluster.clusters) {
+      lines.push(`${indent}subgraph ${id(child.key)}[${text([child.label])}]`);
+      writeCluster(child, indent + '  ');
+      lines.push(`${indent}end`);
+      lines.push(`${indent}style ${id(child.key)} fill:none,stroke:${GROUP_BORDER},stroke-dasharray:5 5`);
+    }
+  };
+  writeCluster(model.top, '  ');
+
+  for (const edge of model.edges) {
+    const arrow = edge.kind === 'mask' ? '-. mask .->' : edge.kind === 'filter' ? '-. filter .->' : '-->';
+    lines.push(`  ${id(edge.from)} ${arrow} ${id(edge.to)}`);
+  }
+
+  for (const [className, keys] of classes) {
+    const style = className === 'hidden'
+      ? `fill:${HIDDEN_FILL},color:${HIDDEN_TEXT},stroke:${HIDDEN_TEXT}`
+      : className === 'filter'
+        ? `fill:${FILTER_COLOR},stroke:${FILTER_EDGE}`
+        : className === 'mask'
+          ? `fill:${DEFAULT_COLOR},stroke:${MASK_EDGE},stroke-dasharray:3 3`
+          : `fill:${TYPE_COLORS[className] ?? DEFAULT_COLOR},stroke:#888`;
+    lines.push(`  classDef ${id(className)} ${style}`);
+    lines.push(`  class ${keys.join(',')} ${id(className)}`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,15 +1,85 @@
 // Public API exports
-export { PixiDebugger } from './debugger.js';
+export { PixiDebugger, NODE_PROPERTY_TYPES, SCENE_FIELDS } from './debugger.js';
 export type {
   PixiInfo,
   SceneNode,
+  SceneGraphOptions,
   SceneStats,
   RenderingInfo,
   TextureInfo,
+  TextureImage,
+  TextureTracking,
+  TrackedTexture,
+  ContactSheet,
   RenderInstruction,
   InstructionData,
   FullDebugData,
   CaptureData,
+  CaptureInstruction,
+  PipeTiming,
+  DrawOrderEntry,
+  GpuCounters,
   BenchmarkData,
+  BenchmarkMode,
+  RealtimeStats,
+  FrameRecording,
+  RecordedFrame,
+  RecordedSpan,
+  RecordedRebuild,
+  NodeProperty,
+  ScreenshotOptions,
+  PickedNode,
+  PickResult,
+  InteractionOptions,
+  InteractionResult,
+  InteractionPoint,
+  HighlightResult,
+  Screenshot,
+  NodeMutation,
+  AppSelector,
+  AppInfo,
+  ConnectOptions,
+  SceneEvent,
+  SceneEventType,
+  NodeSample,
+  WatchEndReason,
+  WatchCondition,
+  WatchNodeOptions,
+  WatchOperator,
 } from './debugger.js';
+export { flattenSceneGraph, queryNodes, globToRegex, diffScenes, isSameSession } from './scene.js';
+export type {
+  FlatNode,
+  SceneSnapshot,
+  SceneDiff,
+  DiffMatch,
+  DiffNodeRef,
+  MovedNode,
+  ChangedNode,
+  DiffOptions,
+} from './scene.js';
+export { estimateTextureBytes, labelPrefix, summarizeTextureMemory } from './textures.js';
+export type {
+  TextureMemoryReport,
+  TextureMemoryEntry,
+  TextureMemoryGroup,
+  TextureDuplicate,
+} from './textures.js';
+export { toTraceEvents, summarizeRecording } from './trace.js';
+export type { TraceEvent, TraceFile, RecordingSummary } from './trace.js';
+export { aggregateRuns, compareBenchmarks, formatComparison, parseRegression, BENCHMARK_METRICS } from './benchmark.js';
+export type { BenchmarkBaseline, BenchmarkComparison, BenchmarkMetric, MetricDelta } from './benchmark.js';
+export { parseWatchCondition, watchColumns, formatWatchRow } from './watch.js';
+export { formatOutput, formatSceneTree, toYaml, OUTPUT_FORMATS } from './format.js';
+export type { OutputFormat, OutputView, TreeNode } from './format.js';
+export { exportSceneGraph } from './graph.js';
+export type { GraphFormat, GraphExportOptions } from './graph.js';
+export { renderCaptureReport, highlightShader } from './report.js';
+export type { CaptureReportMeta } from './report.js';
+export { findBrowser, findDevtoolsExtension, findFreePort, launchBrowser, killBrowser, readLaunchState } from './launch.js';
+export type { BrowserName, LaunchOptions, LaunchState, LaunchResult } from './launch.js';
+export { serve, connectDaemon, keepConnected, DAEMON_METHODS } from './daemon.js';
+export type { DaemonState, DaemonOptions, KeptConnection } from './daemon.js';
+export { serveMcp } from './mcp.js';
+export type { McpOptions } from './mcp.js';
 export type { CDPOptions } from './cdp.js';
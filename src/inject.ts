@@ -1,43 +1,145 @@
 // Script to be injected into browser context via CDP
 // Extracts debugging data from PixiJS applications
 
+// Registers apps and renderers as PixiJS v8 creates them (via its devtools init
+// hooks). Runs before page scripts when installed with addScriptToEvaluateOnNewDocument,
+// and again as part of INJECT_SCRIPT for apps created after injection.
+export const APP_HOOK_SCRIPT = `
+(function() {
+  if (window.__PIXI_CLI_APPS__) return;
+  const registry = window.__PIXI_CLI_APPS__ = [];
+
+  const previousAppInit = window.__PIXI_APP_INIT__;
+  window.__PIXI_APP_INIT__ = function(app, version) {
+    registry.push({ app: app, version: version });
+    if (previousAppInit) return previousAppInit.apply(this, arguments);
+  };
+
+  const previousRendererInit = window.__PIXI_RENDERER_INIT__;
+  window.__PIXI_RENDERER_INIT__ = function(renderer, version) {
+    registry.push({ renderer: renderer, version: version });
+    if (previousRendererInit) return previousRendererInit.apply(this, arguments);
+  };
+})();
+`;
+
+/** Runtime binding the injected script pushes streamed data through */
+export const EMIT_BINDING = '__pixiCliEmit';
+
+/** Value types accepted by setNodeProperty, keyed by dotted property path */
+export const NODE_PROPERTY_TYPES = {
+  'visible': 'boolean',
+  'alpha': 'number',
+  'position.x': 'number',
+  'position.y': 'number',
+  'scale.x': 'number',
+  'scale.y': 'number',
+  'rotation': 'number',
+  'pivot.x': 'number',
+  'pivot.y': 'number',
+  'zIndex': 'number',
+  'tint': 'number',
+  'text': 'string',
+} as const;
+
 export const INJECT_SCRIPT = `
+${APP_HOOK_SCRIPT}
 (function() {
-  // Find PixiJS objects
-  function findPixi() {
+  function normalizeSource(source, fallback) {
+    const app = source.app || fallback.app;
+    const renderer = source.renderer || source.app?.renderer || fallback.renderer;
+    return {
+      app: app,
+      stage: source.stage || source.app?.stage || fallback.stage || renderer?.lastObjectRendered,
+      renderer: renderer,
+      pixi: source.pixi || window.PIXI || window.__PIXI__,
+      version: source.version || window.PIXI?.VERSION || ''
+    };
+  }
+
+  // Every PixiJS app on the page: devtools/global registrations first, then
+  // apps and renderers caught by the init hooks. Deduplicated by renderer/stage.
+  function findAllPixi() {
+    const globals = { app: window.__PIXI_APP__, stage: window.__PIXI_STAGE__, renderer: window.__PIXI_RENDERER__ };
     const sources = [
-      window.__PIXI_DEVTOOLS__,
-      window.__PIXI_APP__,
-      { stage: window.__PIXI_STAGE__, renderer: window.__PIXI_RENDERER__ }
+      [window.__PIXI_DEVTOOLS__, globals, 'devtools'],
+      [window.__PIXI_APP__, globals, 'global'],
+      [{ stage: window.__PIXI_STAGE__, renderer: window.__PIXI_RENDERER__ }, globals, 'global'],
+      ...(window.__PIXI_CLI_APPS__ || []).map(entry => [entry, {}, 'hook'])
     ];
 
-    for (const source of sources) {
-      if (source && (source.app || source.stage || source.renderer)) {
-        return {
-          app: source.app || window.__PIXI_APP__,
-          stage: source.stage || source.app?.stage || window.__PIXI_STAGE__,
-          renderer: source.renderer || source.app?.renderer || window.__PIXI_RENDERER__,
-          pixi: source.pixi || window.PIXI || window.__PIXI__,
-          version: source.version || window.PIXI?.VERSION || ''
-        };
-      }
+    const apps = [];
+    for (const [source, fallback, origin] of sources) {
+      if (!source || !(source.app || source.stage || source.renderer)) continue;
+      const entry = normalizeSource(source, fallback);
+      if (entry.renderer?.destroyed === true) continue;
+      const duplicate = apps.some(a =>
+        (entry.renderer && a.renderer === entry.renderer) || (entry.stage && a.stage === entry.stage));
+      if (duplicate) continue;
+      entry.origin = origin;
+      apps.push(entry);
     }
-    return null;
+    return apps;
+  }
+
+  function getCanvas(renderer) {
+    return renderer?.canvas || renderer?.view || null;
+  }
+
+  // App selector: index into findAllPixi(), canvas id, or CSS selector for the canvas
+  function matchApp(apps, selector) {
+    if (typeof selector === 'number') return apps[selector] || null;
+    let element = null;
+    try {
+      element = document.querySelector(selector);
+    } catch (e) {
+      element = null;
+    }
+    return apps.find(a => {
+      const canvas = getCanvas(a.renderer);
+      return canvas && (canvas === element || canvas.id === selector || '#' + canvas.id === selector);
+    }) || null;
+  }
+
+  let selectedApp = null;
+
+  // Find PixiJS objects for the selected app (first one by default)
+  function findPixi() {
+    const apps = findAllPixi();
+    if (selectedApp === null) return apps[0] || null;
+    return matchApp(apps, selectedApp);
+  }
+
+  function describeApp(entry, index, selected) {
+    const renderer = entry.renderer;
+    const canvas = getCanvas(renderer);
+    return {
+      index: index,
+      selected: selected,
+      origin: entry.origin,
+      canvasId: canvas?.id || null,
+      selector: canvas?.id ? '#' + canvas.id : null,
+      width: canvas?.width ?? null,
+      height: canvas?.height ?? null,
+      rendererType: renderer ? getRenderingInfo(renderer)?.type : null,
+      version: entry.version || 'unknown',
+      hasStage: !!entry.stage
+    };
   }
 
-  // Get node type
+  // Get node type. v8 objects name their render pipe; v7 objects are recognised by shape
   function getPixiType(container) {
     const checks = [
-      ['BitmapText', c => 'renderPipeId' in c && c.renderPipeId === 'BitmapText'],
-      ['HTMLText', c => 'renderPipeId' in c && c.renderPipeId === 'htmlText'],
-      ['Text', c => 'renderPipeId' in c && c.renderPipeId === 'text'],
-      ['Mesh', c => 'renderPipeId' in c && c.renderPipeId === 'mesh'],
-      ['Graphics', c => 'renderPipeId' in c && c.renderPipeId === 'graphics'],
+      ['BitmapText', c => 'renderPipeId' in c ? c.renderPipeId === 'BitmapText' : '_fontName' in c && 'updateText' in c],
+      ['HTMLText', c => 'renderPipeId' in c ? c.renderPipeId === 'htmlText' : '_svgRoot' in c],
+      ['Text', c => 'renderPipeId' in c ? c.renderPipeId === 'text' : c.isSprite === true && 'updateText' in c],
+      ['NineSliceSprite', c => 'renderPipeId' in c ? c.renderPipeId === 'nineSliceSprite' : 'leftWidth' in c && 'geometry' in c],
+      ['Mesh', c => 'renderPipeId' in c ? c.renderPipeId === 'mesh' : 'geometry' in c && 'drawMode' in c],
+      ['Graphics', c => 'renderPipeId' in c ? c.renderPipeId === 'graphics' : 'geometry' in c && 'lineStyle' in c],
       ['AnimatedSprite', c => 'gotoAndPlay' in c && 'stop' in c && 'play' in c],
-      ['NineSliceSprite', c => 'renderPipeId' in c && c.renderPipeId === 'nineSliceSprite'],
-      ['TilingSprite', c => 'renderPipeId' in c && c.renderPipeId === 'tilingSprite'],
-      ['Sprite', c => 'renderPipeId' in c && c.renderPipeId === 'sprite'],
-      ['ParticleContainer', c => 'renderPipeId' in c && c.renderPipeId === 'particle'],
+      ['TilingSprite', c => 'renderPipeId' in c ? c.renderPipeId === 'tilingSprite' : c.isSprite === true && 'tilePosition' in c],
+      ['Sprite', c => 'renderPipeId' in c ? c.renderPipeId === 'sprite' : c.isSprite === true],
+      ['ParticleContainer', c => 'renderPipeId' in c ? c.renderPipeId === 'particle' : '_properties' in c && 'autoResize' in c],
       ['Container', c => 'children' in c && 'parent' in c]
     ];
 
@@ -47,68 +149,212 @@ export const INJECT_SCRIPT = `
     return 'Unknown';
   }
 
-  // Generate unique ID
-  let uidCounter = 0;
-  const uidMap = new WeakMap();
+  // Node ids. PixiJS v8 containers carry a page-lifetime uid, which keeps ids
+  // stable across reconnects. v7 has none, so the id is the child index path
+  // from the stage (node_0 is the stage, node_0.2.1 the second child of its
+  // third child): every traversal and every injection derives the same id for
+  // the same position. Trees outside the stage (e.g. masks) get node_xN roots.
+  const detachedRoots = new WeakMap();
+  let detachedCounter = 0;
   function getUid(container) {
-    if (uidMap.has(container)) return uidMap.get(container);
-    const uid = 'node_' + (uidCounter++);
-    uidMap.set(container, uid);
-    return uid;
+    if (typeof container.uid === 'number') return 'node_' + container.uid;
+    const indices = [];
+    let current = container;
+    while (current.parent) {
+      indices.unshift(current.parent.children.indexOf(current));
+      current = current.parent;
+    }
+    if (current !== findPixi()?.stage && !detachedRoots.has(current)) {
+      detachedRoots.set(current, 'node_x' + (++detachedCounter));
+    }
+    const root = current === findPixi()?.stage ? 'node_0' : detachedRoots.get(current);
+    return [root].concat(indices).join('.');
+  }
+
+  // Id of a child from its parent's id, without walking up to the stage
+  function childUid(child, parentId, index) {
+    return typeof child.uid === 'number' ? 'node_' + child.uid : parentId + '.' + index;
+  }
+
+  // Display name as used in scene graph output and node paths (v8 label, v7 name)
+  function getNodeName(container, type = getPixiType(container)) {
+    const name = 'label' in container ? container.label : container.name;
+    return name || type;
+  }
+
+  const SPRITE_TYPES = ['Sprite', 'AnimatedSprite'];
+  const TEXT_TYPES = ['Text', 'BitmapText', 'HTMLText'];
+
+  // Serialisable node properties in output order. Readers only run for requested
+  // fields, so leaving out e.g. width/height skips the bounds calculation.
+  const SCENE_FIELDS = {
+    uid: c => typeof c.uid === 'number' ? c.uid : undefined,
+    visible: c => c.visible,
+    alpha: c => c.alpha,
+    position: c => ({ x: c.x, y: c.y }),
+    scale: c => ({ x: c.scale?.x ?? 1, y: c.scale?.y ?? 1 }),
+    rotation: c => c.rotation || 0,
+    pivot: c => ({ x: c.pivot?.x ?? 0, y: c.pivot?.y ?? 0 }),
+    anchor: c => c.anchor ? { x: c.anchor.x, y: c.anchor.y } : null,
+    width: c => c.width,
+    height: c => c.height,
+    worldVisible: c => c.worldVisible,
+    worldAlpha: c => c.worldAlpha,
+    zIndex: c => c.zIndex || 0,
+    sortableChildren: c => c.sortableChildren || false,
+    interactive: c => c.interactive || false,
+    // Type-specific properties
+    texture: (c, type) => SPRITE_TYPES.includes(type) ? (c.texture?.label || c.texture?.source?.label || null) : undefined,
+    tint: (c, type) => SPRITE_TYPES.includes(type) ? c.tint : undefined,
+    blendMode: (c, type) => SPRITE_TYPES.includes(type) ? c.blendMode : undefined,
+    text: (c, type) => TEXT_TYPES.includes(type) ? c.text?.substring(0, 100) : undefined,
+    fillStyle: (c, type) => type === 'Graphics' ? c._fillStyle : undefined,
+    lineStyle: (c, type) => type === 'Graphics' ? c._lineStyle : undefined,
+    // Render structure, only present when set
+    isRenderGroup: c => c.isRenderGroup === true || undefined,
+    mask: c => describeMask(c.mask),
+    filters: c => c.filters ? [].concat(c.filters).filter(Boolean).map(f => f.label || f.constructor?.name || 'Filter') : undefined
+  };
+
+  // Mask as a node reference (v7 MaskData wraps the mask object). The id is
+  // derived from the mask's own position, so reporting it does not affect the
+  // ids of other nodes; masks outside the stage get node_xN ids
+  function describeMask(mask) {
+    const target = mask?.maskObject || mask;
+    if (!target || typeof target !== 'object') return undefined;
+    return { id: getUid(target), name: getNodeName(target), type: getPixiType(target) };
+  }
+
+  // Children with their ids; indices count ignored children too, so v7 ids do not shift
+  function getSceneChildIds(container, id) {
+    if (!container.children || container.__devtoolIgnoreChildren) return [];
+    const entries = [];
+    container.children.forEach((child, index) => {
+      if (child && !child.__devtoolIgnore) entries.push([child, childUid(child, id, index)]);
+    });
+    return entries;
   }
 
-  // Build scene graph
-  function buildSceneGraph(container, depth = 0) {
+  // Build scene graph. Options: maxDepth (relative to the starting node) and
+  // fields (property names to include; id, name, type, depth and children are always present)
+  function buildSceneGraph(container, depth = 0, options = {}, startDepth = depth, id = container && getUid(container)) {
     if (!container || container.__devtoolIgnore) return null;
 
     const type = getPixiType(container);
-    const version = findPixi()?.version?.startsWith('8') ? 8 : 7;
-    const name = version === 8 ? container.label : container.name;
+    const fields = options.fields || Object.keys(SCENE_FIELDS);
 
     const node = {
-      id: getUid(container),
-      name: name || type,
-      type: type,
-      visible: container.visible,
-      alpha: container.alpha,
-      position: { x: container.x, y: container.y },
-      scale: { x: container.scale?.x ?? 1, y: container.scale?.y ?? 1 },
-      rotation: container.rotation || 0,
-      pivot: { x: container.pivot?.x ?? 0, y: container.pivot?.y ?? 0 },
-      anchor: container.anchor ? { x: container.anchor.x, y: container.anchor.y } : null,
-      width: container.width,
-      height: container.height,
-      worldVisible: container.worldVisible,
-      worldAlpha: container.worldAlpha,
-      zIndex: container.zIndex || 0,
-      sortableChildren: container.sortableChildren || false,
-      interactive: container.interactive || false,
-      depth: depth,
-      children: []
+      id: id,
+      name: getNodeName(container, type),
+      type: type
     };
+    for (const field of fields) {
+      const read = SCENE_FIELDS[field];
+      const value = read ? read(container, type) : undefined;
+      if (value !== undefined) node[field] = value;
+    }
+    node.depth = depth;
+    node.children = [];
+
+    const children = getSceneChildIds(container, id);
+    if (options.maxDepth !== undefined && depth - startDepth >= options.maxDepth) {
+      // Elided: report how many children could be fetched with a follow-up request
+      if (children.length > 0) node.childCount = children.length;
+      return node;
+    }
 
-    // Add type-specific properties
-    if (type === 'Sprite' || type === 'AnimatedSprite') {
-      node.texture = container.texture?.label || container.texture?.source?.label || null;
-      node.tint = container.tint;
-      node.blendMode = container.blendMode;
+    for (const [child, childId] of children) {
+      const childNode = buildSceneGraph(child, depth + 1, options, startDepth, childId);
+      if (childNode) node.children.push(childNode);
     }
-    if (type === 'Text' || type === 'BitmapText' || type === 'HTMLText') {
-      node.text = container.text?.substring(0, 100);
+
+    return node;
+  }
+
+  // Depth of a node below the stage, for subtree fetches
+  function getNodeDepth(container, root) {
+    let depth = 0;
+    for (let current = container; current && current !== root; current = current.parent) depth++;
+    return depth;
+  }
+
+  // Depth-first visit of the scene with each node's id; stops when visit returns true
+  function walkScene(container, visit, id = container && getUid(container)) {
+    if (!container || container.__devtoolIgnore) return false;
+    if (visit(container, id)) return true;
+    for (const [child, childId] of getSceneChildIds(container, id)) {
+      if (walkScene(child, visit, childId)) return true;
     }
-    if (type === 'Graphics') {
-      node.fillStyle = container._fillStyle;
-      node.lineStyle = container._lineStyle;
+    return false;
+  }
+
+  // Slash-separated name path, matching flattenSceneGraph in the CLI
+  function getNodePath(container, root) {
+    const names = [];
+    let current = container;
+    while (current) {
+      names.unshift(getNodeName(current));
+      if (current === root) break;
+      current = current.parent;
     }
+    return names.join('/');
+  }
 
-    if (container.children && !container.__devtoolIgnoreChildren) {
-      for (const child of container.children) {
-        const childNode = buildSceneGraph(child, depth + 1);
-        if (childNode) node.children.push(childNode);
+  // Resolve a node id (node_N) or name path to a container
+  function findNode(root, ref) {
+    let found = null;
+    walkScene(root, (c, id) => {
+      if (id === ref || getNodePath(c, root) === ref) {
+        found = c;
+        return true;
+      }
+      return false;
+    });
+    return found;
+  }
+
+  // Properties that can be changed through setProperties, with their value types
+  const NODE_FIELDS = ${JSON.stringify(NODE_PROPERTY_TYPES)};
+
+  function readField(container, field) {
+    return field.split('.').reduce((obj, key) => obj?.[key], container);
+  }
+
+  function writeField(container, field, value) {
+    const keys = field.split('.');
+    const last = keys.pop();
+    const target = keys.reduce((obj, key) => obj?.[key], container);
+    target[last] = value;
+  }
+
+  function setNodeProperties(root, ref, values) {
+    const container = findNode(root, ref);
+    if (!container) return { error: 'Node not found: ' + ref };
+
+    const fields = Object.keys(values);
+    for (const field of fields) {
+      const expected = NODE_FIELDS[field];
+      if (!expected) return { error: 'Property not settable: ' + field };
+      if (typeof values[field] !== expected) {
+        return { error: 'Property ' + field + ' expects ' + expected + ', got ' + typeof values[field] };
+      }
+      if (readField(container, field) === undefined) {
+        return { error: getPixiType(container) + ' has no property ' + field };
       }
     }
 
-    return node;
+    const before = {};
+    const after = {};
+    for (const field of fields) before[field] = readField(container, field);
+    for (const field of fields) writeField(container, field, values[field]);
+    for (const field of fields) after[field] = readField(container, field);
+
+    return {
+      id: getUid(container),
+      path: getNodePath(container, root),
+      before: before,
+      after: after
+    };
   }
 
   // Collect stats by traversing scene graph
@@ -135,6 +381,306 @@ export const INJECT_SCRIPT = `
     return stats;
   }
 
+  // Global bounds as a plain rectangle (v8 returns Bounds, v7 a Rectangle)
+  function getGlobalBounds(container) {
+    const b = container.getBounds();
+    if ('minX' in b) return { x: b.minX, y: b.minY, width: b.maxX - b.minX, height: b.maxY - b.minY };
+    return { x: b.x, y: b.y, width: b.width, height: b.height };
+  }
+
+  // Canvas position in document CSS pixels and the scale from renderer
+  // screen units to CSS pixels (covers CSS transforms and autoDensity)
+  function getCanvasRect(renderer) {
+    const canvas = renderer.canvas || renderer.view;
+    const rect = canvas.getBoundingClientRect();
+    const screenWidth = renderer.screen?.width || canvas.width / (renderer.resolution || 1);
+    const screenHeight = renderer.screen?.height || canvas.height / (renderer.resolution || 1);
+    return {
+      x: rect.left + window.scrollX,
+      y: rect.top + window.scrollY,
+      width: rect.width,
+      height: rect.height,
+      scaleX: rect.width / screenWidth,
+      scaleY: rect.height / screenHeight
+    };
+  }
+
+  // Map a rectangle in renderer screen units to document CSS pixels, clipped to the canvas
+  function toPageRect(renderer, bounds) {
+    const canvas = getCanvasRect(renderer);
+    const left = Math.max(canvas.x, canvas.x + bounds.x * canvas.scaleX);
+    const top = Math.max(canvas.y, canvas.y + bounds.y * canvas.scaleY);
+    const right = Math.min(canvas.x + canvas.width, canvas.x + (bounds.x + bounds.width) * canvas.scaleX);
+    const bottom = Math.min(canvas.y + canvas.height, canvas.y + (bounds.y + bounds.height) * canvas.scaleY);
+    return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+  }
+
+  // Render a container through the renderer's extract system into a PNG data URL
+  function extractImage(renderer, target, frame) {
+    const extract = renderer.extract || renderer.plugins?.extract;
+    if (!extract) return { error: 'Renderer has no extract system' };
+    const canvas = renderer.extract ? extract.canvas(frame ? { target, frame } : { target }) : extract.canvas(target, frame);
+    return {
+      data: canvas.toDataURL('image/png').split(',')[1],
+      width: canvas.width,
+      height: canvas.height
+    };
+  }
+
+  function isAncestorOf(ancestor, node) {
+    for (let current = node.parent; current; current = current.parent) {
+      if (current === ancestor) return true;
+    }
+    return false;
+  }
+
+  // Topmost interactive node at a point, using the app's own event boundary.
+  // Its rootTarget is only borrowed, so the app's own event dispatch is unchanged.
+  function hitTestPoint(renderer, stage, x, y) {
+    const boundary = renderer.events?.rootBoundary;
+    if (boundary?.hitTest) {
+      const rootTarget = boundary.rootTarget;
+      boundary.rootTarget = stage;
+      try {
+        return boundary.hitTest(x, y) || null;
+      } finally {
+        boundary.rootTarget = rootTarget;
+      }
+    }
+    const interaction = renderer.plugins?.interaction;
+    if (interaction?.hitTest) return interaction.hitTest({ x: x, y: y }, stage) || null;
+    return null;
+  }
+
+  function describeHitArea(hitArea) {
+    if (!hitArea) return null;
+    const shape = { type: hitArea.constructor?.name || typeof hitArea };
+    for (const [key, value] of Object.entries(hitArea)) {
+      if (typeof value === 'number') shape[key] = value;
+    }
+    return shape;
+  }
+
+  function pickNodes(pixi, x, y, all) {
+    const stage = pixi.stage;
+    const target = hitTestPoint(pixi.renderer, stage, x, y);
+
+    const describe = (c) => {
+      const eventMode = c.eventMode ?? (c.interactive ? 'static' : 'passive');
+      const interactive = eventMode === 'static' || eventMode === 'dynamic';
+      const blocked = interactive && !!target && target !== c && !isAncestorOf(c, target) && !isAncestorOf(target, c);
+      return {
+        id: getUid(c),
+        path: getNodePath(c, stage),
+        type: getPixiType(c),
+        eventMode: eventMode,
+        hitArea: describeHitArea(c.hitArea),
+        bounds: getGlobalBounds(c),
+        blocked: blocked,
+        blockedBy: blocked ? getUid(target) : null
+      };
+    };
+
+    const result = { x: x, y: y, target: target ? describe(target) : null };
+
+    if (all) {
+      // Render order is depth-first, so the reversed walk lists the topmost node first
+      const stack = [];
+      const visit = (c) => {
+        if (!c || c.__devtoolIgnore || c.visible === false) return;
+        const b = getGlobalBounds(c);
+        if (x >= b.x && x < b.x + b.width && y >= b.y && y < b.y + b.height) stack.push(c);
+        if (c.__devtoolIgnoreChildren) return;
+        for (const child of c.children || []) visit(child);
+      };
+      visit(stage);
+      result.stack = stack.reverse().map(describe);
+    }
+
+    return result;
+  }
+
+  // Viewport (client) CSS coordinates for a point in renderer screen units,
+  // as expected by Input.dispatchMouseEvent
+  function toClientPoint(renderer, x, y) {
+    const canvas = getCanvasRect(renderer);
+    return {
+      x: canvas.x - window.scrollX + x * canvas.scaleX,
+      y: canvas.y - window.scrollY + y * canvas.scaleY
+    };
+  }
+
+  // Resolve a node ref (centre of its global bounds) or an {x, y} screen point
+  function locatePoint(pixi, ref) {
+    let point = ref;
+    let node = null;
+    if (typeof ref === 'string') {
+      node = findNode(pixi.stage, ref);
+      if (!node) return { error: 'Node not found: ' + ref };
+      const b = getGlobalBounds(node);
+      point = { x: b.x + b.width / 2, y: b.y + b.height / 2 };
+    }
+    return { node: node, point: point, client: toClientPoint(pixi.renderer, point.x, point.y) };
+  }
+
+  // Records federated events delivered to a node while input is simulated.
+  // Patches the event boundary's notifyTarget so deliveries are seen even when
+  // an earlier handler throws, and catches the exception per handler.
+  let activeRecorder = null;
+
+  function startRecording(pixi, node) {
+    stopRecording();
+    const start = performance.now();
+    const recorder = { events: [], errors: [], restore: [] };
+
+    const boundary = pixi.renderer.events?.rootBoundary;
+    if (boundary?.notifyTarget) {
+      const original = boundary.notifyTarget;
+      boundary.notifyTarget = function(e, type) {
+        const current = e.currentTarget;
+        const isTarget = current === node;
+        if (isTarget) {
+          recorder.events.push({ type: type || e.type, phase: e.eventPhase, time: Number((performance.now() - start).toFixed(2)) });
+        }
+        try {
+          return original.call(this, e, type);
+        } catch (err) {
+          recorder.errors.push({
+            message: String(err?.message || err),
+            event: type || e.type,
+            nodeId: current ? getUid(current) : null,
+            stack: err?.stack ? String(err.stack).split('\\n').slice(0, 5).join('\\n') : undefined
+          });
+          throw err;
+        }
+      };
+      recorder.restore.push(() => { boundary.notifyTarget = original; });
+    } else if (node.on) {
+      const types = ['pointerdown', 'pointerup', 'pointertap', 'pointermove', 'pointerover', 'pointerout', 'click', 'tap'];
+      for (const type of types) {
+        const handler = (e) => recorder.events.push({ type: type, phase: e?.eventPhase, time: Number((performance.now() - start).toFixed(2)) });
+        node.on(type, handler);
+        recorder.restore.push(() => node.off(type, handler));
+      }
+    }
+
+    // Errors from outside the boundary (e.g. async handlers); rethrown handler errors are already recorded
+    const onError = (e) => {
+      const message = String(e.error?.message || e.message);
+      if (recorder.errors.some(err => err.message === message)) return;
+      recorder.errors.push({ message: message, event: null, nodeId: null });
+    };
+    window.addEventListener('error', onError);
+    recorder.restore.push(() => window.removeEventListener('error', onError));
+
+    activeRecorder = recorder;
+  }
+
+  function stopRecording() {
+    if (!activeRecorder) return { events: [], errors: [] };
+    const recorder = activeRecorder;
+    activeRecorder = null;
+    recorder.restore.forEach(fn => fn());
+    return { events: recorder.events, errors: recorder.errors };
+  }
+
+  // Outline overlay drawn as an SVG over the canvas. The SVG viewBox uses renderer
+  // screen units, so world coordinates can be used directly.
+  let highlightState = null;
+
+  // Overlays may come from an earlier injection (every CLI run re-injects), so
+  // clearing works on the DOM rather than only on this script's state
+  function clearHighlight() {
+    if (highlightState) {
+      cancelAnimationFrame(highlightState.frame);
+      clearTimeout(highlightState.timeout);
+      highlightState = null;
+    }
+    const overlays = document.querySelectorAll('[data-pixi-cli-highlight]');
+    overlays.forEach(el => el.remove());
+    return overlays.length;
+  }
+
+  function applyMatrix(m, x, y) {
+    return { x: m.a * x + m.c * y + m.tx, y: m.b * x + m.d * y + m.ty };
+  }
+
+  // Local bounds corners and markers in world space, following rotation/scale/skew
+  function getWorldOutline(container) {
+    const m = container.worldTransform;
+    const lb = container.getLocalBounds();
+    const r = 'minX' in lb
+      ? { x: lb.minX, y: lb.minY, width: lb.maxX - lb.minX, height: lb.maxY - lb.minY }
+      : { x: lb.x, y: lb.y, width: lb.width, height: lb.height };
+    return {
+      corners: [
+        applyMatrix(m, r.x, r.y),
+        applyMatrix(m, r.x + r.width, r.y),
+        applyMatrix(m, r.x + r.width, r.y + r.height),
+        applyMatrix(m, r.x, r.y + r.height)
+      ],
+      pivot: applyMatrix(m, container.pivot?.x ?? 0, container.pivot?.y ?? 0),
+      // Anchored objects place their anchor at the local origin
+      anchor: container.anchor ? applyMatrix(m, 0, 0) : null
+    };
+  }
+
+  function drawHighlight(pixi, nodes, durationMs) {
+    clearHighlight();
+
+    const renderer = pixi.renderer;
+    const svgNs = 'http://www.w3.org/2000/svg';
+    const overlay = document.createElement('div');
+    overlay.setAttribute('data-pixi-cli-highlight', '');
+    overlay.style.cssText = 'position:absolute;pointer-events:none;z-index:2147483647;';
+    const svg = document.createElementNS(svgNs, 'svg');
+    svg.setAttribute('preserveAspectRatio', 'none');
+    svg.style.cssText = 'width:100%;height:100%;overflow:visible;';
+    overlay.appendChild(svg);
+    document.body.appendChild(overlay);
+
+    const update = () => {
+      // Stop tracking once the overlay was removed by another injection's clear
+      if (!overlay.isConnected) return;
+      const rect = getCanvasRect(renderer);
+      overlay.style.left = rect.x + 'px';
+      overlay.style.top = rect.y + 'px';
+      overlay.style.width = rect.width + 'px';
+      overlay.style.height = rect.height + 'px';
+      svg.setAttribute('viewBox', '0 0 ' + (rect.width / rect.scaleX) + ' ' + (rect.height / rect.scaleY));
+      // Keep strokes ~2 CSS pixels regardless of canvas scaling
+      const unit = 1 / rect.scaleX;
+
+      let markup = '';
+      for (const node of nodes) {
+        if (node.destroyed) continue;
+        const outline = getWorldOutline(node);
+        const points = outline.corners.map(p => p.x + ',' + p.y).join(' ');
+        markup += '<polygon points="' + points + '" fill="rgba(233,30,99,0.12)" stroke="#e91e63" stroke-width="' + (2 * unit) + '"/>';
+        markup += '<circle cx="' + outline.pivot.x + '" cy="' + outline.pivot.y + '" r="' + (4 * unit) + '" fill="#00bcd4"/>';
+        if (outline.anchor) {
+          const a = outline.anchor;
+          const s = 5 * unit;
+          markup += '<path d="M' + (a.x - s) + ' ' + a.y + 'H' + (a.x + s) + 'M' + a.x + ' ' + (a.y - s) + 'V' + (a.y + s) + '" stroke="#ffeb3b" stroke-width="' + (2 * unit) + '"/>';
+        }
+        const label = (getNodeName(node) + ' (' + getUid(node) + ')').replace(/&/g, '&amp;').replace(/</g, '&lt;');
+        markup += '<text x="' + outline.corners[0].x + '" y="' + (outline.corners[0].y - 4 * unit) + '" font-size="' + (12 * unit) + '" font-family="monospace" fill="#e91e63">' + label + '</text>';
+      }
+      svg.innerHTML = markup;
+
+      highlightState.frame = requestAnimationFrame(update);
+    };
+
+    highlightState = { overlay: overlay, nodes: nodes, frame: 0, timeout: 0 };
+    update();
+    if (durationMs > 0) {
+      highlightState.timeout = setTimeout(() => {
+        overlay.remove();
+        if (highlightState?.overlay === overlay) highlightState = null;
+      }, durationMs);
+    }
+  }
+
   // Get rendering info
   function getRenderingInfo(renderer) {
     if (!renderer) return null;
@@ -156,36 +702,324 @@ export const INJECT_SCRIPT = `
     };
   }
 
+  // Kind of data behind a texture source. Text is recognised by label only
+  // (pooled text canvases carry no other marker), so it is best effort.
+  function getSourceType(source) {
+    const resource = source.resource;
+    if (source.uploadMethodId === 'compressed') return 'compressed';
+    if (source.uploadMethodId === 'video' || (typeof HTMLVideoElement !== 'undefined' && resource instanceof HTMLVideoElement)) return 'video';
+    if (!resource) return 'renderTexture';
+    if ((typeof HTMLCanvasElement !== 'undefined' && resource instanceof HTMLCanvasElement) ||
+        (typeof OffscreenCanvas !== 'undefined' && resource instanceof OffscreenCanvas)) {
+      return /text/i.test(source.label || '') ? 'text' : 'canvas';
+    }
+    if (ArrayBuffer.isView(resource)) return 'buffer';
+    if ('naturalWidth' in resource || (typeof ImageBitmap !== 'undefined' && resource instanceof ImageBitmap)) return 'image';
+    return 'unknown';
+  }
+
+  // Identity of the uploaded data, for spotting duplicate uploads: the image URL
+  // (or a path-like label, as ImageBitmaps have no URL), otherwise a per-object id
+  const resourceIds = new WeakMap();
+  let resourceCounter = 0;
+  function getResourceKey(source) {
+    const resource = source.resource;
+    if (!resource || typeof resource !== 'object') return null;
+    const url = resource.currentSrc || resource.src;
+    if (typeof url === 'string' && url) return url;
+    if (/[\\/]|\\.\\w{2,4}$/.test(source.label || '')) return source.label;
+    if (!resourceIds.has(resource)) resourceIds.set(resource, 'resource_' + (++resourceCounter));
+    return resourceIds.get(resource);
+  }
+
   // Get texture info
-  function getTextureInfo(renderer) {
+  // Sources without a resource (render textures) are only listed with options.all
+  function getTextureInfo(renderer, options = {}) {
     if (!renderer?.texture?.managedTextures) return [];
 
     const textures = [];
-    for (const texture of renderer.texture.managedTextures) {
-      if (!texture.resource) continue;
-
-      textures.push({
-        label: texture.label || 'unnamed',
-        width: texture.width,
-        height: texture.height,
-        pixelWidth: texture.pixelWidth,
-        pixelHeight: texture.pixelHeight,
-        format: texture.format,
-        mipLevelCount: texture.mipLevelCount,
-        autoGenerateMipmaps: texture.autoGenerateMipmaps,
-        alphaMode: texture.alphaMode,
-        antialias: texture.antialias,
-        destroyed: texture.destroyed,
-        isPowerOfTwo: texture.isPowerOfTwo,
-        autoGarbageCollect: texture.autoGarbageCollect
+    const managed = Array.from(renderer.texture.managedTextures);
+    managed.forEach((texture, index) => {
+      if (!texture.resource && !options.all) return;
+      textures.push(describeManagedTexture(texture, index));
+    });
+    return textures;
+  }
+
+  function describeManagedTexture(texture, index) {
+    return {
+      index: index,
+      label: texture.label || 'unnamed',
+      width: texture.width,
+      height: texture.height,
+      pixelWidth: texture.pixelWidth,
+      pixelHeight: texture.pixelHeight,
+      format: texture.format,
+      sourceType: getSourceType(texture),
+      resourceKey: getResourceKey(texture),
+      mipLevelCount: texture.mipLevelCount,
+      autoGenerateMipmaps: texture.autoGenerateMipmaps,
+      alphaMode: texture.alphaMode,
+      antialias: texture.antialias,
+      destroyed: texture.destroyed,
+      isPowerOfTwo: texture.isPowerOfTwo,
+      autoGarbageCollect: texture.autoGarbageCollect
+    };
+  }
+
+  // Texture source behind a v8 Texture, v7 Texture or a source itself
+  function textureSourceOf(value) {
+    if (!value || typeof value !== 'object') return null;
+    if (value.source || value.baseTexture) return value.source || value.baseTexture;
+    return 'uploadMethodId' in value || '_glTextures' in value ? value : null;
+  }
+
+  // Texture sources used by nodes in the stage (v8 texture.source, v7 baseTexture),
+  // including filter inputs, sprite masks and cacheAsTexture / cacheAsBitmap results
+  function collectStageSources(stage) {
+    const sources = new Set();
+    const add = (value) => {
+      const source = textureSourceOf(value);
+      if (source) sources.add(source);
+    };
+    walkScene(stage, node => {
+      add(node.texture || node._texture);
+      add(node.mask?.texture);
+      add(node.renderGroup?.texture);
+      add(node._cacheData?.sprite?.texture);
+      (node.filters || []).forEach(filter => {
+        Object.values(filter?.resources || filter?.uniforms || {}).forEach(add);
+      });
+      return false;
+    });
+    return sources;
+  }
+
+  // Sample managedTextures for durationMs, remembering when each source first
+  // appeared. Suspects are sources still managed at the end that were created
+  // during tracking and are not used by the stage, or that are destroyed.
+  // Render and text textures are held by filters, texture pools and the text
+  // renderers, none of which the stage shows, so those are only unattributed.
+  function trackTextures(pixi, durationMs, intervalMs) {
+    const renderer = pixi.renderer;
+    const startedAt = Date.now();
+    const firstSeen = new Map();
+    const baseline = new Set(renderer.texture.managedTextures);
+    let freed = 0;
+    let current = baseline;
+
+    // created and freed only count sources that were not managed at the start
+    const sample = () => {
+      const now = Date.now();
+      const next = new Set(renderer.texture.managedTextures);
+      next.forEach(source => {
+        if (!firstSeen.has(source)) firstSeen.set(source, now);
       });
+      current.forEach(source => {
+        if (!next.has(source) && !baseline.has(source)) freed++;
+      });
+      current = next;
+    };
+    sample();
+
+    return new Promise(resolve => {
+      const timer = setInterval(sample, intervalMs);
+      setTimeout(() => {
+        clearInterval(timer);
+        sample();
+
+        const referenced = collectStageSources(pixi.stage);
+        const managed = Array.from(renderer.texture.managedTextures);
+        const suspects = [];
+        let created = 0;
+        firstSeen.forEach((seen, source) => {
+          if (!baseline.has(source)) created++;
+        });
+
+        managed.forEach((source, index) => {
+          const isNew = !baseline.has(source);
+
+          const reasons = [];
+          if (source.destroyed) reasons.push('destroyed');
+          if (isNew && !referenced.has(source)) {
+            const sourceType = getSourceType(source);
+            reasons.push(sourceType === 'renderTexture' || sourceType === 'text' ? 'unattributed' : 'unreferenced');
+          }
+          if (reasons.length === 0) return;
+
+          const seen = firstSeen.get(source);
+          suspects.push({
+            ...describeManagedTexture(source, index),
+            reasons: reasons,
+            existedBefore: !isNew,
+            firstSeen: new Date(seen).toISOString(),
+            firstSeenAfter: Number(((seen - startedAt) / 1000).toFixed(2))
+          });
+        });
+
+        resolve({
+          duration: Date.now() - startedAt,
+          startedAt: new Date(startedAt).toISOString(),
+          summary: {
+            before: baseline.size,
+            after: managed.length,
+            created: created,
+            freed: freed,
+            suspects: suspects.length
+          },
+          suspects: suspects
+        });
+      }, durationMs);
+    });
+  }
+
+  // Draw a texture source into a 2D canvas: CPU-side resources are drawn directly,
+  // GPU-only sources (render textures, uploaded text) are read back from the renderer
+  function textureSourceToCanvas(renderer, source, pixi) {
+    const width = source.pixelWidth || source.width;
+    const height = source.pixelHeight || source.height;
+    const resource = source.resource;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+
+    if (resource && typeof resource === 'object' && ('naturalWidth' in resource || 'videoWidth' in resource ||
+        (typeof ImageBitmap !== 'undefined' && resource instanceof ImageBitmap) ||
+        (typeof HTMLCanvasElement !== 'undefined' && resource instanceof HTMLCanvasElement) ||
+        (typeof OffscreenCanvas !== 'undefined' && resource instanceof OffscreenCanvas))) {
+      ctx.drawImage(resource, 0, 0, width, height);
+      return canvas;
     }
-    return textures;
+
+    if (ArrayBuffer.isView(resource) && resource.byteLength === width * height * 4 && /^rgba8/.test(source.format || 'rgba8unorm')) {
+      const pixels = new Uint8ClampedArray(resource.buffer, resource.byteOffset, resource.byteLength);
+      ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+      return canvas;
+    }
+
+    if (renderer.texture.generateCanvas) {
+      const TextureClass = pixi?.pixi?.Texture;
+      const texture = TextureClass
+        ? new TextureClass({ source: source })
+        : { source: source, frame: { x: 0, y: 0, width: source.width, height: source.height } };
+      const gpuCanvas = renderer.texture.generateCanvas(texture);
+      ctx.drawImage(gpuCanvas, 0, 0, width, height);
+      return canvas;
+    }
+
+    return null;
+  }
+
+  function exportTextureImages(pixi, indices) {
+    const managed = Array.from(pixi.renderer.texture?.managedTextures || []);
+    return indices.map(index => {
+      const source = managed[index];
+      if (!source) return { index: index, error: 'No managed texture at index ' + index };
+
+      const label = source.label || 'unnamed';
+      if (source.destroyed) return { index: index, label: label, error: 'Texture is destroyed' };
+
+      try {
+        const canvas = textureSourceToCanvas(pixi.renderer, source, pixi);
+        if (!canvas) return { index: index, label: label, error: 'Texture contents not readable' };
+        return {
+          index: index,
+          label: label,
+          width: canvas.width,
+          height: canvas.height,
+          data: canvas.toDataURL('image/png').split(',')[1]
+        };
+      } catch (e) {
+        return { index: index, label: label, error: String(e?.message || e) };
+      }
+    });
+  }
+
+  // Tile every managed texture into one labelled image
+  function buildContactSheet(pixi, cellSize = 128) {
+    const managed = Array.from(pixi.renderer.texture?.managedTextures || []);
+    const labelHeight = 28;
+    const padding = 8;
+    const columns = Math.max(1, Math.ceil(Math.sqrt(managed.length)));
+    const rows = Math.max(1, Math.ceil(managed.length / columns));
+    const cellWidth = cellSize + padding * 2;
+    const cellHeight = cellSize + labelHeight + padding * 2;
+
+    const sheet = document.createElement('canvas');
+    sheet.width = columns * cellWidth;
+    sheet.height = rows * cellHeight;
+    const ctx = sheet.getContext('2d');
+    ctx.fillStyle = '#1e1e1e';
+    ctx.fillRect(0, 0, sheet.width, sheet.height);
+    ctx.font = '11px monospace';
+    ctx.textBaseline = 'top';
+
+    managed.forEach((source, index) => {
+      const x = (index % columns) * cellWidth + padding;
+      const y = Math.floor(index / columns) * cellHeight + padding;
+
+      // Checkerboard so transparent textures remain visible
+      for (let cy = 0; cy < cellSize; cy += 8) {
+        for (let cx = 0; cx < cellSize; cx += 8) {
+          ctx.fillStyle = ((cx + cy) / 8) % 2 ? '#3a3a3a' : '#2c2c2c';
+          ctx.fillRect(x + cx, y + cy, 8, 8);
+        }
+      }
+
+      let image = null;
+      if (!source.destroyed) {
+        try {
+          image = textureSourceToCanvas(pixi.renderer, source, pixi);
+        } catch (e) {
+          image = null;
+        }
+      }
+
+      if (image && image.width > 0 && image.height > 0) {
+        const scale = Math.min(cellSize / image.width, cellSize / image.height, 1);
+        const w = image.width * scale;
+        const h = image.height * scale;
+        ctx.drawImage(image, x + (cellSize - w) / 2, y + (cellSize - h) / 2, w, h);
+      } else {
+        ctx.fillStyle = '#c0392b';
+        ctx.fillText(source.destroyed ? 'destroyed' : 'unreadable', x + 4, y + 4);
+      }
+
+      ctx.fillStyle = '#e0e0e0';
+      const label = '#' + index + ' ' + (source.label || 'unnamed');
+      ctx.fillText(label.length > 20 ? label.slice(0, 19) + '…' : label, x, y + cellSize + 3);
+      ctx.fillStyle = '#9e9e9e';
+      ctx.fillText((source.pixelWidth || source.width) + '×' + (source.pixelHeight || source.height) + (source.resource ? '' : ' RT'), x, y + cellSize + 15);
+    });
+
+    return {
+      count: managed.length,
+      width: sheet.width,
+      height: sheet.height,
+      data: sheet.toDataURL('image/png').split(',')[1]
+    };
   }
 
-  // Get render instructions (PixiJS v8 only)
+  // Get render instructions. v8 reads the stage's instruction set; v7 has none,
+  // so one frame is rendered through the profiler and its steps are listed instead
   function getRenderInstructions(renderer, stage) {
-    if (!renderer || !stage?.renderGroup?.instructionSet) return null;
+    if (!renderer || !stage) return null;
+
+    if (!stage.renderGroup?.instructionSet) {
+      if (!renderer.plugins) return null;
+      const profile = profileV7Render(renderer, stage);
+      return {
+        count: profile.instructions.length,
+        instructions: profile.instructions.map(inst => ({
+          type: inst.type,
+          action: inst.action,
+          blendMode: inst.blendMode,
+          size: inst.size
+        }))
+      };
+    }
 
     const instructionSet = stage.renderGroup.instructionSet;
     const instructions = [];
@@ -207,6 +1041,857 @@ export const INJECT_SCRIPT = `
     };
   }
 
+  // Counts draw calls once, at the GL/GPU call, and attributes each to the
+  // innermost profiled span, so nested pipes (render groups, filters rendering
+  // batches) are not counted twice. Calls outside any span are reported as 'direct'.
+  // WebGPU also counts pipeline switches, bind group changes and render passes.
+  // onSpan(key, start, duration, counts, depth) is called as each span ends.
+  function createDrawProfiler(renderer, onSpan) {
+    const gl = renderer.gl;
+    const isWebGPU = renderer.type === 0b10;
+    const metrics = isWebGPU
+      ? ['drawCalls', 'pipelineSwitches', 'bindGroupChanges', 'renderPasses']
+      : ['drawCalls'];
+    const stack = [];
+    const restores = [];
+    const drawOrder = [];
+    const pipeTimings = {};
+    const instructions = [];
+    const totals = emptyCounts();
+
+    function emptyCounts() {
+      return Object.fromEntries(metrics.map(m => [m, 0]));
+    }
+
+    function record(key, time, counts) {
+      if (!pipeTimings[key]) pipeTimings[key] = { time: 0, calls: 0, ...emptyCounts() };
+      const timing = pipeTimings[key];
+      timing.time += time;
+      timing.calls++;
+      metrics.forEach(m => { timing[m] += counts[m]; });
+      drawOrder.push({ pipe: key, time: time, ...counts });
+    }
+
+    function count(metric) {
+      totals[metric]++;
+      const span = stack[stack.length - 1];
+      if (span) {
+        span[metric]++;
+        return;
+      }
+      const last = drawOrder[drawOrder.length - 1];
+      if (last?.pipe === 'direct') {
+        last[metric]++;
+        pipeTimings.direct[metric]++;
+      } else {
+        const counts = emptyCounts();
+        counts[metric] = 1;
+        record('direct', 0, counts);
+      }
+    }
+
+    function countCalls(target, name, metric) {
+      const original = target?.[name];
+      if (typeof original !== 'function') return;
+      target[name] = function(...args) {
+        count(metric);
+        return original.apply(this, args);
+      };
+      restores.push(() => { target[name] = original; });
+    }
+
+    if (isWebGPU) {
+      // Encoders are created per frame, so patch the prototypes
+      const passEncoder = window.GPURenderPassEncoder?.prototype;
+      ['draw', 'drawIndexed', 'drawIndirect', 'drawIndexedIndirect'].forEach(name => {
+        countCalls(passEncoder, name, 'drawCalls');
+      });
+      countCalls(passEncoder, 'setPipeline', 'pipelineSwitches');
+      countCalls(passEncoder, 'setBindGroup', 'bindGroupChanges');
+      countCalls(window.GPUCommandEncoder?.prototype, 'beginRenderPass', 'renderPasses');
+    } else if (gl) {
+      ['drawElements', 'drawArrays', 'drawElementsInstanced', 'drawArraysInstanced'].forEach(name => {
+        countCalls(gl, name, 'drawCalls');
+      });
+    }
+
+    return {
+      // Time target[method] as one span of pipe key. describe(self, args) runs
+      // before the call and, if given, adds an instruction entry in call order.
+      wrap(target, method, key, action, describe) {
+        const original = target?.[method];
+        if (typeof original !== 'function') return;
+
+        target[method] = function(...args) {
+          if (describe) {
+            instructions.push({
+              index: instructions.length,
+              type: key,
+              action: action,
+              depth: stack.length,
+              ...describe(this, args)
+            });
+          }
+          const span = emptyCounts();
+          stack.push(span);
+          const start = performance.now();
+          try {
+            return original.apply(this, args);
+          } finally {
+            stack.pop();
+            const duration = performance.now() - start;
+            record(key, duration, span);
+            if (onSpan) onSpan(key, start, duration, span, stack.length);
+          }
+        };
+        restores.push(() => { target[method] = original; });
+      },
+
+      restore() {
+        while (restores.length) restores.pop()();
+      },
+
+      // Running totals since the profiler was created
+      counts() {
+        return { ...totals };
+      },
+
+      result() {
+        return {
+          drawCalls: totals.drawCalls,
+          gpu: isWebGPU ? {
+            pipelineSwitches: totals.pipelineSwitches,
+            bindGroupChanges: totals.bindGroupChanges,
+            renderPasses: totals.renderPasses
+          } : null,
+          instructions: instructions,
+          pipeTimings: Object.fromEntries(
+            Object.entries(pipeTimings)
+              .filter(([_, v]) => v.calls > 0)
+              .map(([k, v]) => [k, { ...v, time: Number(v.time.toFixed(3)) }])
+          ),
+          drawOrder: drawOrder.map(d => ({ ...d, time: Number(d.time.toFixed(3)) }))
+        };
+      }
+    };
+  }
+
+  function getRenderableData(container) {
+    if (!container) return null;
+    return {
+      class: container.constructor?.name,
+      type: getPixiType(container),
+      label: 'label' in container ? container.label : container.name,
+      position: { x: container.position?.x, y: container.position?.y },
+      width: container.width,
+      height: container.height,
+      scale: { x: container.scale?.x, y: container.scale?.y },
+      anchor: container.anchor ? { x: container.anchor.x, y: container.anchor.y } : null,
+      rotation: container.rotation,
+      angle: container.angle,
+      pivot: { x: container.pivot?.x, y: container.pivot?.y },
+      skew: { x: container.skew?.x, y: container.skew?.y },
+      visible: container.visible,
+      renderable: container.renderable,
+      alpha: container.alpha,
+      tint: container.tint,
+      blendMode: container.blendMode,
+      zIndex: container.zIndex,
+      isRenderGroup: container.isRenderGroup
+    };
+  }
+
+  function getStateData(state) {
+    if (!state) return null;
+    return {
+      blend: state.blend,
+      blendMode: state.blendMode,
+      cullMode: state.cullMode,
+      culling: state.culling,
+      depthMask: state.depthMask,
+      depthTest: state.depthTest
+    };
+  }
+
+  // Texture summary for instructions; accepts v8 textures/sources and v7 textures/base textures
+  function describeTexture(texture) {
+    if (!texture) return null;
+    const source = texture._source || texture.source || texture.baseTexture || texture;
+    return {
+      label: source.label || source.cacheId || source.resource?.url || 'unnamed',
+      width: source.width,
+      height: source.height,
+      pixelWidth: source.pixelWidth ?? source.realWidth,
+      pixelHeight: source.pixelHeight ?? source.realHeight,
+      format: source.format
+    };
+  }
+
+  function getShaderSource(renderer, filter, shaderType) {
+    const target = filter.blurXFilter || filter;
+
+    // v7 filters carry a single Program with vertexSrc/fragmentSrc
+    if (!target.glProgram && !target.gpuProgram && target.program) {
+      return target.program[shaderType + 'Src'] || '';
+    }
+
+    const isWebGPU = renderer.type === 0b10;
+    const program = target[isWebGPU ? 'gpuProgram' : 'glProgram'];
+    if (!program) return '';
+    const source = program[shaderType];
+    if (!source) return '';
+    return typeof source === 'string' ? source : source.source || '';
+  }
+
+  function describeFilter(renderer, filter) {
+    return {
+      type: filter.constructor.name,
+      padding: filter.padding,
+      resolution: filter.resolution,
+      antialias: filter.antialias ?? filter.multisample,
+      blendMode: filter.blendMode,
+      program: {
+        vertex: getShaderSource(renderer, filter, 'vertex'),
+        fragment: getShaderSource(renderer, filter, 'fragment')
+      },
+      state: getStateData(filter._state || filter.state)
+    };
+  }
+
+  // Profiled v8 frame: wraps each render pipe's execute for timings and draw
+  // calls, then lists the stage's instruction set with full details
+  function profileV8Render(renderer, stage) {
+    const instructionSet = stage.renderGroup.instructionSet;
+    const renderPipes = instructionSet.renderPipes;
+    const profiler = createDrawProfiler(renderer);
+    instrumentV8(profiler, renderPipes);
+
+    const start = performance.now();
+    try {
+      renderer.render(stage);
+    } finally {
+      profiler.restore();
+    }
+    const profiledRenderTime = performance.now() - start;
+
+    const instructions = [];
+    function processInstructionSet(instSet, depth = 0) {
+      const result = [];
+      for (let i = 0; i < instSet.instructionSize; i++) {
+        const inst = instSet.instructions[i];
+        const instData = {
+          index: instructions.length,
+          type: inst.renderPipeId || 'unknown',
+          action: inst.action || 'execute',
+          depth: depth
+        };
+        instructions.push(instData);
+
+        // Add type-specific detailed data
+        if (inst.renderPipeId === 'batch') {
+          instData.blendMode = inst.blendMode;
+          instData.size = inst.size;
+          instData.start = inst.start;
+          instData.textures = [];
+          if (inst.textures?.textures) {
+            inst.textures.textures.forEach(tex => {
+              if (tex) instData.textures.push(describeTexture(tex));
+            });
+          }
+        }
+        else if (inst.renderPipeId === 'filter') {
+          instData.filters = inst.filterEffect?.filters?.map(f => describeFilter(renderer, f)) || [];
+          instData.renderables = inst.renderables?.map(r => ({
+            ...getRenderableData(r),
+            texture: describeTexture(r.texture)
+          })) || [];
+        }
+        else if (inst.renderPipeId === 'graphics') {
+          instData.renderable = getRenderableData(inst);
+        }
+        else if (inst.renderPipeId === 'mesh') {
+          const mesh = inst.mesh || inst;
+          instData.renderable = {
+            ...getRenderableData(mesh),
+            texture: describeTexture(mesh.texture),
+            state: getStateData(mesh.state),
+            geometry: mesh.geometry ? {
+              vertexCount: mesh.geometry.positions?.length / 2 || 0,
+              indexCount: mesh.geometry.indices?.length || 0
+            } : null
+          };
+        }
+        else if (inst.renderPipeId === 'tilingSprite') {
+          instData.renderable = {
+            ...getRenderableData(inst),
+            texture: describeTexture(inst.texture),
+            tilePosition: { x: inst.tilePosition?.x, y: inst.tilePosition?.y },
+            tileScale: { x: inst.tileScale?.x, y: inst.tileScale?.y },
+            tileRotation: inst.tileRotation,
+            clampMargin: inst.clampMargin
+          };
+        }
+        else if (inst.renderPipeId === 'nineSliceSprite') {
+          instData.renderable = {
+            ...getRenderableData(inst),
+            texture: describeTexture(inst.texture),
+            leftWidth: inst.leftWidth,
+            rightWidth: inst.rightWidth,
+            topHeight: inst.topHeight,
+            bottomHeight: inst.bottomHeight,
+            originalWidth: inst.originalWidth,
+            originalHeight: inst.originalHeight
+          };
+        }
+        else if (inst.renderPipeId === 'stencilMask' || inst.renderPipeId === 'alphaMask' || inst.renderPipeId === 'colorMask') {
+          instData.maskType = inst.renderPipeId;
+          if (inst.mask?.mask) {
+            instData.mask = getRenderableData(inst.mask.mask);
+          }
+        }
+        else if (inst.renderPipeId === 'renderGroup') {
+          instData.type = 'renderGroup';
+          if (inst.instructionSet) {
+            instData.children = processInstructionSet(inst.instructionSet, depth + 1);
+          }
+        }
+
+        result.push(instData);
+      }
+      return result;
+    }
+    processInstructionSet(instructionSet);
+
+    return {
+      profiledRenderTime: profiledRenderTime,
+      instructionCount: instructionSet.instructionSize,
+      ...profiler.result(),
+      instructions: instructions
+    };
+  }
+
+  // v7 MaskData.type values
+  const V7_MASK_TYPES = { 1: 'scissor', 2: 'stencil', 3: 'sprite', 4: 'color' };
+
+  // Profiled v7 frame. There is no instruction set, so the render loop itself
+  // is instrumented: object renderer flushes/renders, filter and mask push/pop.
+  // Each call becomes an instruction, in the order it happened.
+  function profileV7Render(renderer, stage) {
+    const profiler = createDrawProfiler(renderer);
+    instrumentV7(profiler, renderer, true);
+
+    const start = performance.now();
+    try {
+      renderer.render(stage);
+    } finally {
+      profiler.restore();
+    }
+    const profiledRenderTime = performance.now() - start;
+
+    const result = profiler.result();
+    return {
+      profiledRenderTime: profiledRenderTime,
+      instructionCount: result.instructions.length,
+      ...result
+    };
+  }
+
+  function instrumentV8(profiler, renderPipes) {
+    Object.keys(renderPipes).forEach(key => {
+      profiler.wrap(renderPipes[key], 'execute', key);
+    });
+  }
+
+  // Wrap the v7 render loop steps; with detailed set, each call is also
+  // described as an instruction (textures, filters, masks)
+  function instrumentV7(profiler, renderer, detailed) {
+    const details = describe => detailed ? describe : undefined;
+
+    Object.keys(renderer.plugins).forEach(key => {
+      const plugin = renderer.plugins[key];
+      if (!plugin) return;
+
+      // Batching renderers buffer in render() and draw in flush(); the rest draw in render()
+      if ('_bufferedElements' in plugin) {
+        profiler.wrap(plugin, 'flush', key, 'flush', details(self => {
+          const elements = (self._bufferedElements || []).slice(0, self._bufferSize);
+          if (elements.length === 0) return { size: 0, textures: [] };
+          const textures = [...new Set(elements.map(e => e?._texture?.baseTexture).filter(Boolean))];
+          return {
+            blendMode: elements[0]?.blendMode,
+            size: elements.length,
+            textures: textures.map(describeTexture)
+          };
+        }));
+      } else if (key !== 'extract' && key !== 'prepare') {
+        profiler.wrap(plugin, 'render', key, 'render', details((_, args) => ({
+          renderable: {
+            ...getRenderableData(args[0]),
+            texture: describeTexture(args[0]?.texture)
+          }
+        })));
+      }
+    });
+
+    if (renderer.filter) {
+      profiler.wrap(renderer.filter, 'push', 'filter', 'push', details((_, args) => ({
+        filters: (args[1] || []).map(f => describeFilter(renderer, f)),
+        renderables: [getRenderableData(args[0])]
+      })));
+      profiler.wrap(renderer.filter, 'pop', 'filter', 'pop', details(() => ({})));
+    }
+
+    if (renderer.mask) {
+      profiler.wrap(renderer.mask, 'push', 'mask', 'push', details((_, args) => {
+        const maskData = args[1];
+        const maskObject = maskData?.maskObject || maskData;
+        return {
+          maskType: V7_MASK_TYPES[maskData?.type] || (maskObject?.isSprite ? 'sprite' : 'stencil'),
+          mask: getRenderableData(maskObject)
+        };
+      }));
+      profiler.wrap(renderer.mask, 'pop', 'mask', 'pop', details(() => ({})));
+    }
+  }
+
+  // Record the next frameCount frames the app renders itself (ticker driven).
+  // Pipe spans and per-frame counters come from the draw profiler; v8 instruction
+  // set rebuilds are caught on InstructionSet.reset. Resolves early, with
+  // complete: false, if the app stops rendering before timeoutMs.
+  function recordFrames(pixi, frameCount, timeoutMs) {
+    const renderer = pixi.renderer;
+    const isV8 = !!pixi.stage.renderGroup?.instructionSet;
+    const frames = [];
+    const spans = [];
+    const rebuilds = [];
+    const restores = [];
+    let current = null;
+
+    const profiler = createDrawProfiler(renderer, (pipe, start, duration, counts, depth) => {
+      if (!current) return;
+      spans.push({ frame: current.index, pipe: pipe, start: start, duration: duration, depth: depth, ...counts });
+    });
+
+    if (isV8) {
+      const instructionSet = pixi.stage.renderGroup.instructionSet;
+      instrumentV8(profiler, instructionSet.renderPipes);
+
+      // Shared by every render group's instruction set
+      const proto = Object.getPrototypeOf(instructionSet);
+      const originalReset = proto.reset;
+      if (typeof originalReset === 'function') {
+        proto.reset = function(...args) {
+          rebuilds.push({ frame: current ? current.index : null, time: performance.now(), instructionSet: this.uid ?? null });
+          return originalReset.apply(this, args);
+        };
+        restores.push(() => { proto.reset = originalReset; });
+      }
+    } else {
+      instrumentV7(profiler, renderer, false);
+    }
+
+    return new Promise(resolve => {
+      let finished = false;
+      const startedAt = Date.now();
+      const startTime = performance.now();
+
+      const finish = (complete) => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timer);
+        while (restores.length) restores.pop()();
+        profiler.restore();
+        resolve({
+          pipeline: isV8 ? 'v8' : 'v7',
+          startedAt: new Date(startedAt).toISOString(),
+          startTime: startTime,
+          endTime: performance.now(),
+          complete: complete,
+          frames: frames,
+          spans: spans,
+          rebuilds: rebuilds
+        });
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs);
+
+      // Nested renders (render textures, extract) stay part of the outer frame
+      const originalRender = renderer.render;
+      renderer.render = function(...args) {
+        if (current || finished) return originalRender.apply(this, args);
+
+        const before = profiler.counts();
+        current = { index: frames.length, start: performance.now() };
+        try {
+          return originalRender.apply(this, args);
+        } finally {
+          const after = profiler.counts();
+          const frame = current;
+          current = null;
+          frame.duration = performance.now() - frame.start;
+          frame.drawCalls = after.drawCalls - before.drawCalls;
+          frame.gpu = 'renderPasses' in after ? {
+            pipelineSwitches: after.pipelineSwitches - before.pipelineSwitches,
+            bindGroupChanges: after.bindGroupChanges - before.bindGroupChanges,
+            renderPasses: after.renderPasses - before.renderPasses
+          } : null;
+          frame.heapUsed = performance.memory ? performance.memory.usedJSHeapSize : null;
+          frames.push(frame);
+          if (frames.length >= frameCount) finish(true);
+        }
+      };
+      restores.push(() => { renderer.render = originalRender; });
+    });
+  }
+
+  // avg/min/max/percentiles in ms, as reported by benchmark
+  function summarizeFrameTimes(values) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = p => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] || 0;
+    const round = n => Number(n.toFixed(3));
+    return {
+      avg: round(values.reduce((a, b) => a + b, 0) / (values.length || 1)),
+      min: round(sorted[0] || 0),
+      max: round(sorted[sorted.length - 1] || 0),
+      p50: round(at(0.5)),
+      p95: round(at(0.95)),
+      p99: round(at(0.99))
+    };
+  }
+
+  // Draw calls of one frame, rendered once with the profiler attached
+  function countFrameDrawCalls(renderer, stage) {
+    const profiler = createDrawProfiler(renderer);
+    try {
+      renderer.render(stage);
+    } finally {
+      profiler.restore();
+    }
+    return profiler.counts().drawCalls;
+  }
+
+  // Let the app run normally for durationMs and measure what the user sees:
+  // rAF intervals, frames dropped against the display refresh, long tasks, and
+  // how each frame splits into ticker callbacks, rendering and idle time.
+  function benchmarkRealtime(pixi, durationMs, drawCalls) {
+    const renderer = pixi.renderer;
+    const ticker = pixi.app?.ticker || null;
+    const restores = [];
+    let renderTime = 0;
+    let renderInTicker = 0;
+    let tickerTime = 0;
+    let renderDepth = 0;
+    let inTicker = false;
+
+    const originalRender = renderer.render;
+    renderer.render = function(...args) {
+      if (renderDepth > 0) return originalRender.apply(this, args);
+      renderDepth++;
+      const start = performance.now();
+      try {
+        return originalRender.apply(this, args);
+      } finally {
+        renderDepth--;
+        const elapsed = performance.now() - start;
+        renderTime += elapsed;
+        if (inTicker) renderInTicker += elapsed;
+      }
+    };
+    restores.push(() => { renderer.render = originalRender; });
+
+    // The app's render is itself a ticker listener; it is subtracted below
+    if (ticker && typeof ticker.update === 'function') {
+      const originalUpdate = ticker.update;
+      ticker.update = function(...args) {
+        inTicker = true;
+        const start = performance.now();
+        try {
+          return originalUpdate.apply(this, args);
+        } finally {
+          inTicker = false;
+          tickerTime += performance.now() - start;
+        }
+      };
+      restores.push(() => { ticker.update = originalUpdate; });
+    }
+
+    const longTasks = [];
+    let observer = null;
+    try {
+      observer = new PerformanceObserver(list => longTasks.push(...list.getEntries()));
+      observer.observe({ type: 'longtask' });
+    } catch (e) {
+      observer = null;
+    }
+
+    return new Promise(resolve => {
+      const stamps = [];
+      let finished = false;
+
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(safety);
+        while (restores.length) restores.pop()();
+        if (observer) {
+          longTasks.push(...observer.takeRecords());
+          observer.disconnect();
+        }
+
+        const intervals = stamps.slice(1).map((t, i) => t - stamps[i]);
+        const duration = stamps.length > 1 ? stamps[stamps.length - 1] - stamps[0] : 0;
+        const frameCount = intervals.length;
+
+        // Display refresh estimated from the fastest intervals; a longer interval
+        // means round(interval / refresh) - 1 frames were missed
+        const sorted = [...intervals].sort((a, b) => a - b);
+        const refresh = sorted[Math.floor(sorted.length * 0.1)] || 0;
+        const dropped = refresh > 0
+          ? intervals.reduce((sum, i) => sum + Math.max(0, Math.round(i / refresh) - 1), 0)
+          : 0;
+
+        const perFrame = total => Number((frameCount ? total / frameCount : 0).toFixed(3));
+        const frameInterval = summarizeFrameTimes(intervals);
+        const tickerCallbacks = Math.max(0, tickerTime - renderInTicker);
+
+        resolve({
+          mode: 'realtime',
+          duration: Number(duration.toFixed(0)),
+          frameCount: frameCount,
+          fps: Number((duration ? frameCount / (duration / 1000) : 0).toFixed(1)),
+          frameTime: frameInterval,
+          drawCalls: drawCalls,
+          realtime: {
+            refreshInterval: Number(refresh.toFixed(3)),
+            droppedFrames: dropped,
+            longTasks: observer ? {
+              count: longTasks.length,
+              totalTime: Number(longTasks.reduce((sum, t) => sum + t.duration, 0).toFixed(1)),
+              max: Number(Math.max(0, ...longTasks.map(t => t.duration)).toFixed(1))
+            } : null,
+            split: {
+              ticker: ticker ? perFrame(tickerCallbacks) : null,
+              render: perFrame(renderTime),
+              idle: Number(Math.max(0, frameInterval.avg - perFrame(tickerCallbacks) - perFrame(renderTime)).toFixed(3))
+            }
+          }
+        });
+      };
+
+      const step = time => {
+        stamps.push(time);
+        if (time - stamps[0] >= durationMs) finish();
+        else if (!finished) requestAnimationFrame(step);
+      };
+      requestAnimationFrame(step);
+
+      // rAF stops in background tabs; report what was measured
+      const safety = setTimeout(finish, durationMs + 5000);
+    });
+  }
+
+  // Push data to the CLI over the CDP binding (Runtime.addBinding); a no-op
+  // when no client is listening
+  const EMIT_BINDING = '${EMIT_BINDING}';
+  function emit(channel, data) {
+    const binding = window[EMIT_BINDING];
+    if (typeof binding === 'function') binding(JSON.stringify({ channel: channel, data: data }));
+  }
+
+  // Flat structure of the stage: node -> id, parent, name and path. Ids are
+  // kept so removed nodes are reported under the id they had
+  function snapshotStructure(stage) {
+    const nodes = new Map();
+    walkScene(stage, (node, id) => {
+      const parent = nodes.get(node.parent);
+      const name = getNodeName(node);
+      nodes.set(node, { id: id, parent: parent ? node.parent : null, name: name, path: parent ? parent.path + '/' + name : name });
+      return false;
+    });
+    return nodes;
+  }
+
+  // Diff two structure snapshots into scene events. Added/removed subtrees are
+  // reported once, at their root, with the number of descendants.
+  function diffStructure(before, after, frame) {
+    const events = [];
+    const time = Date.now();
+    const ref = (node, entry, nodes) => ({
+      frame: frame,
+      time: time,
+      id: entry.id,
+      name: entry.name,
+      nodeType: getPixiType(node),
+      parentId: entry.parent ? nodes.get(entry.parent).id : null,
+      path: entry.path
+    });
+    // Removed subtrees usually keep their children, so walking them works for both sides
+    const countDescendants = (nodes, root) => {
+      let count = 0;
+      for (const child of root.children || []) {
+        if (nodes.has(child)) count += 1 + countDescendants(nodes, child);
+      }
+      return count;
+    };
+
+    after.forEach((entry, node) => {
+      const previous = before.get(node);
+      if (!previous) {
+        if (entry.parent && !before.has(entry.parent)) return;
+        events.push({ type: 'childAdded', ...ref(node, entry, after), descendants: countDescendants(after, node) });
+        return;
+      }
+      if (previous.parent !== entry.parent) {
+        events.push({
+          type: 'reparented',
+          ...ref(node, entry, after),
+          fromParentId: previous.parent ? before.get(previous.parent).id : null,
+          fromPath: previous.path
+        });
+      }
+      if (previous.name !== entry.name) {
+        events.push({ type: 'labelChanged', ...ref(node, entry, after), from: previous.name });
+      }
+    });
+
+    before.forEach((entry, node) => {
+      if (after.has(node)) return;
+      if (entry.parent && !after.has(entry.parent) && before.has(entry.parent)) return;
+      events.push({
+        type: node.destroyed ? 'destroyed' : 'childRemoved',
+        ...ref(node, entry, before),
+        descendants: countDescendants(before, node)
+      });
+    });
+
+    return events;
+  }
+
+  // Running scene and node watches by subscription id. Each watch emits on
+  // its id as channel, so concurrent clients only receive their own events.
+  // The registry lives on window so a re-injected script still reaches loops
+  // started by an earlier injection.
+  const watches = window.__pixiCliWatches || (window.__pixiCliWatches = new Map());
+
+  // Clients call keepWatching() every second; a watch whose client went away
+  // (killed, crashed, disconnected) ends after this long without one
+  const WATCH_TIMEOUT_MS = 5000;
+
+  // Whether a watch loop should run another frame; ends orphaned ones
+  function watchAlive(id, watch) {
+    if (watches.get(id) !== watch) return false;
+    if (typeof window[EMIT_BINDING] === 'function' && Date.now() - watch.lastSeen <= WATCH_TIMEOUT_MS) return true;
+    watches.delete(id);
+    return false;
+  }
+
+  function keepWatching(id) {
+    const watch = watches.get(id);
+    if (watch) watch.lastSeen = Date.now();
+    return { watching: !!watch };
+  }
+
+  function stopWatch(id) {
+    const watch = watches.get(id);
+    if (!watch) return { watching: false };
+    cancelAnimationFrame(watch.handle);
+    watches.delete(id);
+    return { watching: false };
+  }
+
+  // Diff the selected app's stage once per animation frame and emit the
+  // changes in batches
+  function startSceneWatch(id) {
+    stopWatch(id);
+    const watch = { frame: 0, previous: null, handle: 0, lastSeen: Date.now() };
+
+    const tick = () => {
+      if (!watchAlive(id, watch)) return;
+      const stage = findPixi()?.stage;
+      const current = stage ? snapshotStructure(stage) : new Map();
+      if (watch.previous) {
+        const events = diffStructure(watch.previous, current, watch.frame);
+        if (events.length) emit(id, events);
+      }
+      watch.previous = current;
+      watch.frame++;
+      watch.handle = requestAnimationFrame(tick);
+    };
+
+    watches.set(id, watch);
+    tick();
+    return { watching: true, nodes: watch.previous.size };
+  }
+
+  // Property values as JSON: points reduce to x/y, other objects to a string
+  function sampleField(container, field) {
+    const value = readField(container, field);
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value;
+    if (typeof value.x === 'number' && typeof value.y === 'number') return { x: value.x, y: value.y };
+    return String(value);
+  }
+
+  const CONDITION_OPS = {
+    '==': (a, b) => a === b,
+    '!=': (a, b) => a !== b,
+    '<': (a, b) => a < b,
+    '<=': (a, b) => a <= b,
+    '>': (a, b) => a > b,
+    '>=': (a, b) => a >= b
+  };
+
+  // Sample fields of one node every animation frame and emit them. Ends by
+  // itself when a stop condition holds or the node is destroyed or leaves
+  // the stage.
+  function startNodeWatch(pixi, id, ref, fields, options) {
+    const container = findNode(pixi.stage, ref);
+    if (!container) return { error: 'Node not found: ' + ref };
+
+    // A misspelt field would sample null forever and never meet its condition
+    const until = options.until || [];
+    const missing = fields.concat(until.map(c => c.field)).filter(field => readField(container, field) === undefined);
+    if (missing.length) {
+      return { error: getPixiType(container) + ' has no property ' + Array.from(new Set(missing)).join(', ') };
+    }
+
+    stopWatch(id);
+    const watch = { frame: 0, previous: null, handle: 0, lastSeen: Date.now() };
+    const nodeId = getUid(container);
+
+    const tick = () => {
+      if (!watchAlive(id, watch)) return;
+      const values = {};
+      for (const field of fields) values[field] = sampleField(container, field);
+
+      let attached = container;
+      while (attached && attached !== pixi.stage) attached = attached.parent;
+
+      let reason = null;
+      if (container.destroyed) reason = 'destroyed';
+      else if (!attached) reason = 'removed';
+      else if (until.some(c => CONDITION_OPS[c.op](readField(container, c.field), c.value))) reason = 'until';
+
+      const serialized = JSON.stringify(values);
+      if (reason || !options.onChange || serialized !== watch.previous) {
+        const sample = { frame: watch.frame, time: Date.now(), id: nodeId, values: values };
+        if (reason) {
+          sample.done = true;
+          sample.reason = reason;
+        }
+        emit(id, sample);
+      }
+      watch.previous = serialized;
+      watch.frame++;
+
+      if (reason) watches.delete(id);
+      else watch.handle = requestAnimationFrame(tick);
+    };
+
+    watches.set(id, watch);
+    watch.handle = requestAnimationFrame(tick);
+    return { watching: true, id: nodeId, path: getNodePath(container, pixi.stage) };
+  }
+
   // Get FPS estimate
   let lastTime = performance.now();
   let frameCount = 0;
@@ -225,6 +1910,25 @@ export const INJECT_SCRIPT = `
 
   // Main debug function
   window.__PIXI_CLI_DEBUG__ = {
+    listApps: function() {
+      const apps = findAllPixi();
+      const current = findPixi();
+      return apps.map((entry, index) => describeApp(entry, index, entry === current || (!!current && entry.renderer === current.renderer)));
+    },
+
+    // Scope every following call to one app; null goes back to the first app
+    selectApp: function(selector) {
+      if (selector === null || selector === undefined) {
+        selectedApp = null;
+        return { selected: null };
+      }
+      const apps = findAllPixi();
+      const entry = matchApp(apps, selector);
+      if (!entry) return { error: 'No PixiJS app matches ' + JSON.stringify(selector) + ' (' + apps.length + ' found)' };
+      selectedApp = selector;
+      return { selected: describeApp(entry, apps.indexOf(entry), true) };
+    },
+
     getInfo: function() {
       const pixi = findPixi();
       if (!pixi) return { error: 'PixiJS not found' };
@@ -238,10 +1942,22 @@ export const INJECT_SCRIPT = `
       };
     },
 
-    getSceneGraph: function() {
+    getSceneGraph: function(options = {}) {
+      const pixi = findPixi();
+      if (!pixi?.stage) return { error: 'No stage found' };
+
+      let root = pixi.stage;
+      if (options.rootId) {
+        root = findNode(pixi.stage, options.rootId);
+        if (!root) return { error: 'Node not found: ' + options.rootId };
+      }
+      return buildSceneGraph(root, getNodeDepth(root, pixi.stage), options);
+    },
+
+    setProperties: function(ref, values) {
       const pixi = findPixi();
       if (!pixi?.stage) return { error: 'No stage found' };
-      return buildSceneGraph(pixi.stage);
+      return setNodeProperties(pixi.stage, ref, values);
     },
 
     getStats: function() {
@@ -256,10 +1972,113 @@ export const INJECT_SCRIPT = `
       return getRenderingInfo(pixi.renderer);
     },
 
-    getTextures: function() {
+    // Screenshot via extract (returns PNG data) or page capture (returns a clip
+    // rectangle for Page.captureScreenshot). Without nodeId the whole canvas is used.
+    screenshot: function(options = {}) {
+      const pixi = findPixi();
+      if (!pixi?.renderer || !pixi?.stage) return { error: 'No renderer or stage found' };
+
+      const renderer = pixi.renderer;
+      let node = null;
+      if (options.nodeId) {
+        node = findNode(pixi.stage, options.nodeId);
+        if (!node) return { error: 'Node not found: ' + options.nodeId };
+      }
+
+      if (options.method === 'page') {
+        const bounds = node ? getGlobalBounds(node) : { x: 0, y: 0, width: renderer.screen.width, height: renderer.screen.height };
+        const clip = toPageRect(renderer, bounds);
+        if (clip.width === 0 || clip.height === 0) return { error: 'Node is outside the canvas' };
+        return { clip: clip };
+      }
+
+      return node ? extractImage(renderer, node) : extractImage(renderer, pixi.stage, renderer.screen);
+    },
+
+    // Nodes at a point in renderer screen coordinates
+    pick: function(x, y, all) {
+      const pixi = findPixi();
+      if (!pixi?.renderer || !pixi?.stage) return { error: 'No renderer or stage found' };
+      return pickNodes(pixi, x, y, all);
+    },
+
+    // Start recording events on a node before simulated input; returns where to click
+    beginInteraction: function(ref) {
+      const pixi = findPixi();
+      if (!pixi?.renderer || !pixi?.stage) return { error: 'No renderer or stage found' };
+
+      const located = locatePoint(pixi, ref);
+      if (located.error) return located;
+
+      const node = located.node;
+      const hit = hitTestPoint(pixi.renderer, pixi.stage, located.point.x, located.point.y);
+      startRecording(pixi, node);
+
+      return {
+        target: { id: getUid(node), path: getNodePath(node, pixi.stage) },
+        point: located.point,
+        client: located.client,
+        hitTarget: hit ? { id: getUid(hit), path: getNodePath(hit, pixi.stage) } : null,
+        covered: !!hit && hit !== node && !isAncestorOf(node, hit) && !isAncestorOf(hit, node)
+      };
+    },
+
+    locate: function(ref) {
+      const pixi = findPixi();
+      if (!pixi?.renderer || !pixi?.stage) return { error: 'No renderer or stage found' };
+      const located = locatePoint(pixi, ref);
+      if (located.error) return located;
+      return { point: located.point, client: located.client };
+    },
+
+    endInteraction: function() {
+      return stopRecording();
+    },
+
+    // Outline nodes on top of the canvas; durationMs 0 keeps it until clearHighlight
+    highlight: function(refs, durationMs) {
+      const pixi = findPixi();
+      if (!pixi?.renderer || !pixi?.stage) return { error: 'No renderer or stage found' };
+
+      const nodes = [];
+      for (const ref of refs) {
+        const node = findNode(pixi.stage, ref);
+        if (!node) return { error: 'Node not found: ' + ref };
+        nodes.push(node);
+      }
+      drawHighlight(pixi, nodes, durationMs);
+      return {
+        highlighted: nodes.map(n => ({ id: getUid(n), path: getNodePath(n, pixi.stage) })),
+        durationMs: durationMs
+      };
+    },
+
+    clearHighlight: function() {
+      return { cleared: clearHighlight() };
+    },
+
+    getTextures: function(options = {}) {
+      const pixi = findPixi();
+      if (!pixi?.renderer) return { error: 'No renderer found' };
+      return getTextureInfo(pixi.renderer, options);
+    },
+
+    trackTextures: function(durationMs = 10000, intervalMs = 100) {
+      const pixi = findPixi();
+      if (!pixi?.renderer?.texture?.managedTextures || !pixi.stage) return { error: 'No texture system found' };
+      return trackTextures(pixi, durationMs, intervalMs);
+    },
+
+    exportTextures: function(indices) {
+      const pixi = findPixi();
+      if (!pixi?.renderer) return { error: 'No renderer found' };
+      return exportTextureImages(pixi, indices);
+    },
+
+    textureContactSheet: function(cellSize) {
       const pixi = findPixi();
       if (!pixi?.renderer) return { error: 'No renderer found' };
-      return getTextureInfo(pixi.renderer);
+      return buildContactSheet(pixi, cellSize);
     },
 
     getInstructions: function() {
@@ -290,10 +2109,10 @@ export const INJECT_SCRIPT = `
 
       const renderer = pixi.renderer;
       const stage = pixi.stage;
+      const isV8 = !!stage.renderGroup?.instructionSet;
 
-      // Check if v8 with instruction set
-      if (!stage.renderGroup?.instructionSet) {
-        return { error: 'Capture requires PixiJS v8 with render groups' };
+      if (!isV8 && !renderer.plugins) {
+        return { error: 'Capture requires PixiJS v7 or v8' };
       }
 
       // Measure render time
@@ -301,239 +2120,7 @@ export const INJECT_SCRIPT = `
       renderer.render(stage);
       const renderTime = performance.now() - startTime;
 
-      // Capture draw calls per pipe
-      const drawOrder = [];
-      const pipeTimings = {};
-      let totalDrawCalls = 0;
-
-      const instructionSet = stage.renderGroup.instructionSet;
-      const renderPipes = instructionSet.renderPipes;
-      const originalExecuteFns = new Map();
-
-      // Hook into each render pipe to measure timing and draw calls
-      Object.keys(renderPipes).forEach(key => {
-        const pipe = renderPipes[key];
-        if (!pipe.execute) return;
-
-        originalExecuteFns.set(key, pipe.execute);
-        pipeTimings[key] = { time: 0, calls: 0, drawCalls: 0 };
-
-        pipe.execute = function(...args) {
-          const pipeStart = performance.now();
-          pipeTimings[key].calls++;
-
-          // Track draw calls for this pipe
-          let pipeDrawCalls = 0;
-          if (renderer.gl) {
-            const gl = renderer.gl;
-            const origDraw = gl.drawElements;
-            const origDrawArrays = gl.drawArrays;
-            gl.drawElements = function(...drawArgs) {
-              pipeDrawCalls++;
-              totalDrawCalls++;
-              return origDraw.apply(gl, drawArgs);
-            };
-            gl.drawArrays = function(...drawArgs) {
-              pipeDrawCalls++;
-              totalDrawCalls++;
-              return origDrawArrays.apply(gl, drawArgs);
-            };
-
-            const result = originalExecuteFns.get(key).apply(pipe, args);
-
-            gl.drawElements = origDraw;
-            gl.drawArrays = origDrawArrays;
-
-            pipeTimings[key].time += performance.now() - pipeStart;
-            pipeTimings[key].drawCalls += pipeDrawCalls;
-
-            drawOrder.push({ pipe: key, drawCalls: pipeDrawCalls, time: performance.now() - pipeStart });
-            return result;
-          }
-
-          const result = originalExecuteFns.get(key).apply(pipe, args);
-          pipeTimings[key].time += performance.now() - pipeStart;
-          drawOrder.push({ pipe: key, drawCalls: 0, time: performance.now() - pipeStart });
-          return result;
-        };
-      });
-
-      // Run profiled render
-      const profiledStart = performance.now();
-      renderer.render(stage);
-      const profiledRenderTime = performance.now() - profiledStart;
-
-      // Restore original functions
-      Object.keys(renderPipes).forEach(key => {
-        const pipe = renderPipes[key];
-        if (originalExecuteFns.has(key)) {
-          pipe.execute = originalExecuteFns.get(key);
-        }
-      });
-
-      // Helper to get renderable data
-      function getRenderableData(container) {
-        if (!container) return null;
-        return {
-          class: container.constructor?.name,
-          type: getPixiType(container),
-          label: container.label,
-          position: { x: container.position?.x, y: container.position?.y },
-          width: container.width,
-          height: container.height,
-          scale: { x: container.scale?.x, y: container.scale?.y },
-          anchor: container.anchor ? { x: container.anchor.x, y: container.anchor.y } : null,
-          rotation: container.rotation,
-          angle: container.angle,
-          pivot: { x: container.pivot?.x, y: container.pivot?.y },
-          skew: { x: container.skew?.x, y: container.skew?.y },
-          visible: container.visible,
-          renderable: container.renderable,
-          alpha: container.alpha,
-          tint: container.tint,
-          blendMode: container.blendMode,
-          zIndex: container.zIndex,
-          isRenderGroup: container.isRenderGroup
-        };
-      }
-
-      // Helper to get state data
-      function getStateData(state) {
-        if (!state) return null;
-        return {
-          blend: state.blend,
-          blendMode: state.blendMode,
-          cullMode: state.cullMode,
-          culling: state.culling,
-          depthMask: state.depthMask,
-          depthTest: state.depthTest
-        };
-      }
-
-      // Helper to get texture info
-      function getTextureInfo(texture) {
-        if (!texture) return null;
-        const source = texture._source || texture.source || texture;
-        return {
-          label: source.label || 'unnamed',
-          width: source.width,
-          height: source.height,
-          pixelWidth: source.pixelWidth,
-          pixelHeight: source.pixelHeight,
-          format: source.format
-        };
-      }
-
-      // Helper to get shader source
-      function getShaderSource(filter, shaderType) {
-        const isWebGPU = renderer.type === 0b10;
-        const programType = isWebGPU ? 'gpuProgram' : 'glProgram';
-        let program = filter.blurXFilter ? filter.blurXFilter[programType] : filter[programType];
-        if (!program) return '';
-        const source = program[shaderType];
-        if (!source) return '';
-        return typeof source === 'string' ? source : source.source || '';
-      }
-
-      // Build instruction tree with full details
-      const instructions = [];
-      function processInstructionSet(instSet, depth = 0) {
-        const result = [];
-        for (let i = 0; i < instSet.instructionSize; i++) {
-          const inst = instSet.instructions[i];
-          const instData = {
-            index: instructions.length,
-            type: inst.renderPipeId || 'unknown',
-            action: inst.action || 'execute',
-            depth: depth
-          };
-
-          // Add type-specific detailed data
-          if (inst.renderPipeId === 'batch') {
-            instData.blendMode = inst.blendMode;
-            instData.size = inst.size;
-            instData.start = inst.start;
-            instData.textures = [];
-            if (inst.textures?.textures) {
-              inst.textures.textures.forEach(tex => {
-                if (tex) instData.textures.push(getTextureInfo(tex));
-              });
-            }
-          }
-          else if (inst.renderPipeId === 'filter') {
-            instData.filters = inst.filterEffect?.filters?.map(f => ({
-              type: f.constructor.name,
-              padding: f.padding,
-              resolution: f.resolution,
-              antialias: f.antialias,
-              blendMode: f.blendMode,
-              program: {
-                vertex: getShaderSource(f, 'vertex'),
-                fragment: getShaderSource(f, 'fragment')
-              },
-              state: getStateData(f._state)
-            })) || [];
-            instData.renderables = inst.renderables?.map(r => ({
-              ...getRenderableData(r),
-              texture: getTextureInfo(r.texture)
-            })) || [];
-          }
-          else if (inst.renderPipeId === 'graphics') {
-            instData.renderable = getRenderableData(inst);
-          }
-          else if (inst.renderPipeId === 'mesh') {
-            const mesh = inst.mesh || inst;
-            instData.renderable = {
-              ...getRenderableData(mesh),
-              texture: getTextureInfo(mesh.texture),
-              state: getStateData(mesh.state),
-              geometry: mesh.geometry ? {
-                vertexCount: mesh.geometry.positions?.length / 2 || 0,
-                indexCount: mesh.geometry.indices?.length || 0
-              } : null
-            };
-          }
-          else if (inst.renderPipeId === 'tilingSprite') {
-            instData.renderable = {
-              ...getRenderableData(inst),
-              texture: getTextureInfo(inst.texture),
-              tilePosition: { x: inst.tilePosition?.x, y: inst.tilePosition?.y },
-              tileScale: { x: inst.tileScale?.x, y: inst.tileScale?.y },
-              tileRotation: inst.tileRotation,
-              clampMargin: inst.clampMargin
-            };
-          }
-          else if (inst.renderPipeId === 'nineSliceSprite') {
-            instData.renderable = {
-              ...getRenderableData(inst),
-              texture: getTextureInfo(inst.texture),
-              leftWidth: inst.leftWidth,
-              rightWidth: inst.rightWidth,
-              topHeight: inst.topHeight,
-              bottomHeight: inst.bottomHeight,
-              originalWidth: inst.originalWidth,
-              originalHeight: inst.originalHeight
-            };
-          }
-          else if (inst.renderPipeId === 'stencilMask' || inst.renderPipeId === 'alphaMask' || inst.renderPipeId === 'colorMask') {
-            instData.maskType = inst.renderPipeId;
-            if (inst.mask?.mask) {
-              instData.mask = getRenderableData(inst.mask.mask);
-            }
-          }
-          else if (inst.renderPipeId === 'renderGroup') {
-            instData.type = 'renderGroup';
-            if (inst.instructionSet) {
-              instData.children = processInstructionSet(inst.instructionSet, depth + 1);
-            }
-          }
-
-          instructions.push(instData);
-          result.push(instData);
-        }
-        return result;
-      }
-      processInstructionSet(instructionSet);
+      const profile = isV8 ? profileV8Render(renderer, stage) : profileV7Render(renderer, stage);
 
       // Count scene objects
       const totals = {
@@ -553,7 +2140,8 @@ export const INJECT_SCRIPT = `
           case 'TilingSprite': totals.tilingSprites++; break;
           case 'NineSliceSprite': totals.nineSliceSprites++; break;
         }
-        if (container.effects) totals.filters += Array.isArray(container.effects) ? container.effects.length : 1;
+        const effects = isV8 ? container.effects : container.filters;
+        if (effects) totals.filters += Array.isArray(effects) ? effects.length : 1;
         if (container.mask) totals.masks++;
         if (container.children) container.children.forEach(countScene);
       }
@@ -570,26 +2158,16 @@ export const INJECT_SCRIPT = `
       }
 
       return {
+        pipeline: isV8 ? 'v8' : 'v7',
         renderTime: Number(renderTime.toFixed(3)),
-        profiledRenderTime: Number(profiledRenderTime.toFixed(3)),
-        drawCalls: totalDrawCalls,
-        instructionCount: instructionSet.instructionSize,
+        profiledRenderTime: Number(profile.profiledRenderTime.toFixed(3)),
+        drawCalls: profile.drawCalls,
+        gpu: profile.gpu,
+        instructionCount: profile.instructionCount,
         totals: totals,
-        pipeTimings: Object.fromEntries(
-          Object.entries(pipeTimings)
-            .filter(([_, v]) => v.calls > 0)
-            .map(([k, v]) => [k, {
-              time: Number(v.time.toFixed(3)),
-              calls: v.calls,
-              drawCalls: v.drawCalls
-            }])
-        ),
-        instructions: instructions,
-        drawOrder: drawOrder.map(d => ({
-          pipe: d.pipe,
-          drawCalls: d.drawCalls,
-          time: Number(d.time.toFixed(3))
-        })),
+        pipeTimings: profile.pipeTimings,
+        instructions: profile.instructions,
+        drawOrder: profile.drawOrder,
         memory: memory,
         canvas: {
           width: renderer.canvas?.width || renderer.view?.width,
@@ -599,14 +2177,53 @@ export const INJECT_SCRIPT = `
       };
     },
 
-    // Benchmark - run multiple captures over time
-    benchmark: function(durationMs = 3000) {
+    // Record real frames for a trace; resolves when frameCount frames were rendered
+    record: function(frameCount = 300, timeoutMs = 30000) {
+      const pixi = findPixi();
+      if (!pixi?.renderer || !pixi?.stage) return { error: 'No renderer or stage found' };
+      if (!pixi.stage.renderGroup?.instructionSet && !pixi.renderer.plugins) {
+        return { error: 'Recording requires PixiJS v7 or v8' };
+      }
+      return recordFrames(pixi, frameCount, timeoutMs);
+    },
+
+    watchScene: function(id) {
+      if (!findPixi()?.stage) return { error: 'No stage found' };
+      return startSceneWatch(id);
+    },
+
+    watchNode: function(id, ref, fields, options = {}) {
+      const pixi = findPixi();
+      if (!pixi?.stage) return { error: 'No stage found' };
+      return startNodeWatch(pixi, id, ref, fields, options);
+    },
+
+    // Heartbeat for a scene or node watch; watching is false once it ended
+    keepWatching: function(id) {
+      return keepWatching(id);
+    },
+
+    // Stop a scene or node watch by its subscription id
+    unwatch: function(id) {
+      return stopWatch(id);
+    },
+
+    // Benchmark. loop: render back to back in a busy loop (raw render cost);
+    // realtime: measure the app's own frames over the duration
+    benchmark: function(durationMs = 3000, mode = 'loop') {
       const pixi = findPixi();
       if (!pixi?.renderer || !pixi?.stage) return { error: 'No renderer or stage found' };
 
       const renderer = pixi.renderer;
       const stage = pixi.stage;
 
+      // Count draw calls on one extra frame, so the timed frames run uninstrumented
+      const drawCalls = countFrameDrawCalls(renderer, stage);
+
+      if (mode === 'realtime') {
+        return benchmarkRealtime(pixi, durationMs, drawCalls);
+      }
+
       const startTime = performance.now();
       const frames = [];
       let frameCount = 0;
@@ -621,21 +2238,14 @@ export const INJECT_SCRIPT = `
       }
 
       const totalTime = performance.now() - startTime;
-      const avgFrameTime = frames.reduce((a, b) => a + b, 0) / frames.length;
-      const sortedFrames = [...frames].sort((a, b) => a - b);
 
       return {
+        mode: 'loop',
         duration: Number(totalTime.toFixed(0)),
         frameCount: frameCount,
         fps: Number((frameCount / (totalTime / 1000)).toFixed(1)),
-        frameTime: {
-          avg: Number(avgFrameTime.toFixed(3)),
-          min: Number(sortedFrames[0].toFixed(3)),
-          max: Number(sortedFrames[sortedFrames.length - 1].toFixed(3)),
-          p50: Number(sortedFrames[Math.floor(frames.length * 0.5)].toFixed(3)),
-          p95: Number(sortedFrames[Math.floor(frames.length * 0.95)].toFixed(3)),
-          p99: Number(sortedFrames[Math.floor(frames.length * 0.99)].toFixed(3))
-        }
+        frameTime: summarizeFrameTimes(frames),
+        drawCalls: drawCalls
       };
     }
   };
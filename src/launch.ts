@@ -0,0 +1,355 @@
+// Launching a debuggable Chromium-based browser: discovery on macOS, Linux and
+// Windows, a throwaway profile, headless software rendering, and waiting until
+// both the CDP endpoint and a PixiJS app are up
+
+import { spawn, execSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { basename, delimiter, dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { PixiDebugger, type PixiInfo } from './debugger.js';
+import { findPageTarget } from './cdp.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export type BrowserName = 'chrome' | 'chromium' | 'edge';
+
+export interface LaunchOptions {
+  /** Page to open; without one the browser starts on a blank page and no app is awaited */
+  url?: string;
+  port?: number;
+  /** Executable path or browser name (chrome, chromium, edge); defaults to CHROME_PATH, then discovery */
+  browser?: string;
+  /** Headless with SwiftShader software rendering, for machines without a GPU */
+  headless?: boolean;
+  /** Unpacked extension to load; undefined looks for the PixiJS DevTools build next to this package, false loads none */
+  extension?: string | false;
+  /** Page expression that must also be truthy before the app counts as ready (promises are awaited) */
+  ready?: string;
+  /** How long to wait for the CDP endpoint and the PixiJS app */
+  timeoutMs?: number;
+}
+
+/** Written next to the daemon state so `launch --kill` can find the browser again */
+export interface LaunchState {
+  pid: number;
+  port: number;
+  browser: string;
+  profileDir: string;
+  headless: boolean;
+  url: string | null;
+  extension: string | null;
+  startedAt: string;
+}
+
+export interface LaunchResult extends LaunchState {
+  /** PixiJS as detected on the page; null when no URL was opened */
+  pixi: PixiInfo | null;
+}
+
+const POLL_MS = 250;
+const PROFILE_PREFIX = 'pixi-debug-profile-';
+
+/** Well-known install locations per platform, in order of preference */
+const BROWSER_PATHS: Record<string, Array<[BrowserName, string]>> = {
+  darwin: [
+    ['chrome', '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome'],
+    ['chromium', '/Applications/Chromium.app/Contents/MacOS/Chromium'],
+    ['edge', '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge'],
+  ],
+  win32: ['PROGRAMFILES', 'PROGRAMFILES(X86)', 'LOCALAPPDATA'].flatMap((variable): Array<[BrowserName, string]> => {
+    const base = process.env[variable];
+    return base ? [
+      ['chrome', join(base, 'Google', 'Chrome', 'Application', 'chrome.exe')],
+      ['chromium', join(base, 'Chromium', 'Application', 'chrome.exe')],
+      ['edge', join(base, 'Microsoft', 'Edge', 'Application', 'msedge.exe')],
+    ] : [];
+  }),
+};
+
+/** Executables looked up on PATH (Linux and other Unixes) */
+const BROWSER_COMMANDS: Array<[BrowserName, string]> = [
+  ['chrome', 'google-chrome'],
+  ['chrome', 'google-chrome-stable'],
+  ['chromium', 'chromium'],
+  ['chromium', 'chromium-browser'],
+  ['edge', 'microsoft-edge'],
+  ['edge', 'microsoft-edge-stable'],
+];
+
+/**
+ * Resolve the browser executable: an explicit path or name, then CHROME_PATH,
+ * then the first installed Chrome, Chromium or Edge.
+ */
+export function findBrowser(preference?: string): string {
+  const requested = preference ?? process.env.CHROME_PATH;
+  if (requested && !isBrowserName(requested)) {
+    if (!existsSync(requested)) {
+      throw new Error(`Browser not found: ${requested}`);
+    }
+    return requested;
+  }
+
+  const candidates = browserCandidates().filter(([name]) => !requested || name === requested);
+  const found = candidates.find(([, path]) => existsSync(path));
+  if (!found) {
+    throw new Error(`No ${requested ?? 'Chrome, Chromium or Edge'} installation found; pass --browser <path> or set CHROME_PATH`);
+  }
+  return found[1];
+}
+
+function browserCandidates(): Array<[BrowserName, string]> {
+  const known = BROWSER_PATHS[process.platform];
+  if (known) return known;
+
+  const dirs = (process.env.PATH ?? '').split(delimiter).filter(Boolean);
+  return [
+    ...BROWSER_COMMANDS.flatMap(([name, command]) => dirs.map((dir): [BrowserName, string] => [name, join(dir, command)])),
+    ['chromium', '/snap/bin/chromium'],
+  ];
+}
+
+function isBrowserName(value: string): value is BrowserName {
+  return value === 'chrome' || value === 'chromium' || value === 'edge';
+}
+
+/**
+ * The PixiJS DevTools extension build from the surrounding monorepo, built on
+ * demand when only its sources are there. Null when installed standalone.
+ */
+export function findDevtoolsExtension(): string | null {
+  const extensionSrc = resolve(__dirname, '../../devtool-chrome');
+  const extensionDist = join(extensionSrc, 'dist', 'chrome');
+  if (existsSync(extensionDist)) return extensionDist;
+  if (!existsSync(join(extensionSrc, 'vite.chrome.config.ts'))) return null;
+
+  const viteBin = resolve(__dirname, '../../../node_modules/.bin/vite');
+  try {
+    // Build output goes to stderr so stdout stays JSON
+    execSync(`"${viteBin}" build --config vite.chrome.config.ts`, { cwd: extensionSrc, stdio: ['ignore', process.stderr, 'inherit'] });
+    execSync(`"${viteBin}" build --config vite.inject.config.ts`, { cwd: extensionSrc, stdio: ['ignore', process.stderr, 'inherit'] });
+  } catch {
+    return null;
+  }
+  return existsSync(extensionDist) ? extensionDist : null;
+}
+
+/** A port nothing listens on right now, as assigned by the OS (for throwaway browsers) */
+export function findFreePort(): Promise<number> {
+  return new Promise((resolvePort, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolvePort(port));
+    });
+  });
+}
+
+export function launchStatePath(port = 9222): string {
+  return join(tmpdir(), `pixi-debug-browser-${port}.json`);
+}
+
+/**
+ * State of a browser started by launch on this port, or null if there is none
+ * (or it exited). A stale file whose PID now belongs to another process counts
+ * as none, so that process is never signalled.
+ */
+export async function readLaunchState(port = 9222): Promise<LaunchState | null> {
+  const file = launchStatePath(port);
+  if (!existsSync(file)) return null;
+
+  let state: LaunchState | null = null;
+  try {
+    state = JSON.parse(readFileSync(file, 'utf-8')) as LaunchState;
+  } catch {
+    // Corrupt file: nothing to find again
+  }
+  if (state && isRunning(state.pid) && await isLaunchedBrowser(state)) return state;
+
+  // The browser is gone; its profile can go too
+  cleanUp(file);
+  return null;
+}
+
+/**
+ * Start the browser on a fresh temporary profile and wait for its CDP endpoint,
+ * then (when a URL is given) for a PixiJS app on the page. The browser keeps
+ * running after this process exits; stop it with killBrowser().
+ */
+export async function launchBrowser(options: LaunchOptions = {}): Promise<LaunchResult> {
+  const { url, port = 9222, headless = false, timeoutMs = 30000 } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  const running = await readLaunchState(port);
+  if (running) {
+    throw new Error(`A browser launched by pixi-debug is already running on port ${port} (PID ${running.pid}); stop it with launch --kill`);
+  }
+  if (await cdpAvailable(port)) {
+    throw new Error(`Port ${port} is already serving a CDP endpoint`);
+  }
+
+  const browser = findBrowser(options.browser);
+  const extension = options.extension === false ? null : options.extension ?? findDevtoolsExtension();
+  if (extension && !existsSync(extension)) {
+    throw new Error(`Extension not found: ${extension}`);
+  }
+
+  const profileDir = mkdtempSync(join(tmpdir(), `${PROFILE_PREFIX}${port}-`));
+  const args = [
+    `--remote-debugging-port=${port}`,
+    `--user-data-dir=${profileDir}`,
+    '--no-first-run',
+    '--no-default-browser-check',
+  ];
+  if (headless) {
+    // SwiftShader keeps WebGL available without a GPU
+    args.push('--headless=new', '--use-angle=swiftshader', '--enable-unsafe-swiftshader', '--window-size=1280,720');
+  }
+  if (process.platform === 'linux' && process.getuid?.() === 0) {
+    // Chrome refuses to start as root (containers, CI) with the sandbox on
+    args.push('--no-sandbox');
+  }
+  if (extension) {
+    // Branded Chrome ignores --load-extension unless this feature is turned off
+    args.push(`--load-extension=${extension}`, '--disable-features=DisableLoadExtensionCommandLineSwitch');
+  }
+  // Open a blank page first, so the app hooks are installed before the app loads
+  args.push('about:blank');
+
+  const child = spawn(browser, args, { detached: true, stdio: 'ignore' });
+  const pid = await new Promise<number>((resolvePid, reject) => {
+    child.once('error', reject);
+    child.once('spawn', () => resolvePid(child.pid!));
+  }).catch((err: Error) => {
+    rmSync(profileDir, { recursive: true, force: true });
+    throw new Error(`Could not start ${browser}: ${err.message}`);
+  });
+  child.unref();
+
+  // Stop waiting as soon as the browser is gone (bad flags, crash, port taken)
+  const browserExited = new AbortController();
+  child.once('exit', (code, signal) => {
+    browserExited.abort(new Error(`${browser} exited (${signal ?? `code ${code}`}) before it was ready`));
+  });
+
+  const state: LaunchState = {
+    pid,
+    port,
+    browser,
+    profileDir,
+    headless,
+    url: url ?? null,
+    extension,
+    startedAt: new Date().toISOString(),
+  };
+  writeFileSync(launchStatePath(port), JSON.stringify(state, null, 2));
+
+  await waitFor(async () => await cdpAvailable(port) || null, deadline, `CDP endpoint on port ${port} did not come up within ${timeoutMs / 1000}s`, browserExited.signal);
+  const pixi = url ? await waitForPixi(port, url, options.ready, deadline, timeoutMs, browserExited.signal) : null;
+  return { ...state, pixi };
+}
+
+/** Stop a browser started by launchBrowser and delete its profile; null when none is running */
+export async function killBrowser(port = 9222): Promise<LaunchState | null> {
+  const state = await readLaunchState(port);
+  if (!state) return null;
+
+  try {
+    process.kill(state.pid);
+  } catch {
+    // Exited in the meantime
+  }
+  // The profile can only be removed once the browser let go of it
+  await waitFor(async () => !isRunning(state.pid) || null, Date.now() + 10000, '').catch(() => {});
+  cleanUp(launchStatePath(port), state.profileDir);
+  return state;
+}
+
+async function waitForPixi(port: number, url: string, ready: string | undefined, deadline: number, timeoutMs: number, signal: AbortSignal): Promise<PixiInfo> {
+  const debugger_ = new PixiDebugger();
+  try {
+    await waitFor(async () => {
+      // connect() keeps its client when injecting fails; drop it before retrying
+      await debugger_.disconnect().catch(() => {});
+      const target = await findPageTarget({ port });
+      if (!target) return null;
+      await debugger_.connect({ port, target });
+      return true;
+    }, deadline, `No page target on port ${port} within ${timeoutMs / 1000}s`, signal);
+
+    await debugger_.navigate(url);
+
+    return await waitFor(async () => {
+      // Fails while the page is still loading; the next poll retries
+      await debugger_.ensureInjected();
+      const info = await debugger_.getInfo() as PixiInfo | { error: string };
+      if ('error' in info || !(info.hasStage || info.hasRenderer)) return null;
+      return !ready || await debugger_.evaluateCondition(ready) ? info : null;
+    }, deadline, ready
+      ? `PixiJS not detected on ${url}, or ready check "${ready}" still false, after ${timeoutMs / 1000}s`
+      : `PixiJS not detected on ${url} within ${timeoutMs / 1000}s`, signal);
+  } finally {
+    await debugger_.disconnect();
+  }
+}
+
+/** Poll until check() returns a value; null and thrown errors count as not yet. Aborting the signal fails with its reason. */
+async function waitFor<T>(check: () => Promise<T | null>, deadline: number, message: string, signal?: AbortSignal): Promise<T> {
+  while (Date.now() < deadline) {
+    signal?.throwIfAborted();
+    const value = await check().catch(() => null);
+    if (value !== null) return value;
+    await new Promise(r => setTimeout(r, POLL_MS));
+  }
+  throw new Error(message);
+}
+
+async function cdpAvailable(port: number): Promise<boolean> {
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/json/version`, { signal: AbortSignal.timeout(1000) });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the process is still the browser from this state: its command line
+ * names the profile where /proc has it (Linux), otherwise the CDP endpoint on
+ * the recorded port answers.
+ */
+async function isLaunchedBrowser(state: LaunchState): Promise<boolean> {
+  const cmdline = `/proc/${state.pid}/cmdline`;
+  if (existsSync(cmdline)) {
+    try {
+      return readFileSync(cmdline, 'utf-8').split('\0').includes(`--user-data-dir=${state.profileDir}`);
+    } catch {
+      return false;
+    }
+  }
+  return cdpAvailable(state.port);
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function cleanUp(stateFile: string, profileDir?: string): void {
+  if (!profileDir && existsSync(stateFile)) {
+    try {
+      profileDir = (JSON.parse(readFileSync(stateFile, 'utf-8')) as LaunchState).profileDir;
+    } catch {
+      // Unreadable state: nothing to remove but the file
+    }
+  }
+  // Only ever delete profiles this module created
+  if (profileDir && basename(profileDir).startsWith(PROFILE_PREFIX)) rmSync(profileDir, { recursive: true, force: true, maxRetries: 5, retryDelay: 200 });
+  if (existsSync(stateFile)) unlinkSync(stateFile);
+}
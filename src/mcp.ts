@@ -0,0 +1,333 @@
+// Model Context Protocol server over stdio: exposes PixiDebugger methods as
+// tools for AI assistants. Messages are newline-delimited JSON-RPC 2.0.
+
+import { createInterface } from 'readline';
+import { keepConnected } from './daemon.js';
+import { SCENE_FIELDS, type ConnectOptions, type SceneGraphOptions, type SceneNode, type TextureInfo } from './debugger.js';
+import { flattenSceneGraph, queryNodes } from './scene.js';
+
+const PROTOCOL_VERSION = '2024-11-05';
+/** Revisions whose tool and stdio handling this server implements; others get PROTOCOL_VERSION */
+const SUPPORTED_PROTOCOL_VERSIONS = [PROTOCOL_VERSION, '2025-03-26', '2025-06-18'];
+const DEFAULT_MAX_OUTPUT = 40_000;
+const DEFAULT_PAGE_SIZE = 100;
+
+export interface McpOptions extends ConnectOptions {
+  /** Maximum characters of JSON returned by a single tool call */
+  maxOutput?: number;
+}
+
+// JSON Schema subset used for tool inputs. ObjectSchema<T> requires a property
+// schema for every key of T, so the schemas stay in step with the exported types.
+type JsonSchema =
+  | { type: 'string'; description?: string; enum?: readonly string[] }
+  | { type: 'number' | 'integer' | 'boolean'; description?: string; minimum?: number }
+  | { type: 'array'; description?: string; items: JsonSchema };
+
+interface ObjectSchema<T> {
+  type: 'object';
+  properties: { [K in keyof T]-?: JsonSchema };
+  required?: Array<keyof T & string>;
+  additionalProperties: false;
+}
+
+interface PageArgs {
+  offset?: number;
+  limit?: number;
+}
+
+type NoArgs = Record<string, never>;
+type SceneArgs = SceneGraphOptions & PageArgs & { flat?: boolean };
+type TextureArgs = PageArgs & { all?: boolean; sort?: keyof TextureInfo };
+type CaptureArgs = { includeInstructions?: boolean };
+type InspectArgs = PageArgs & { index?: number; filter?: string };
+type QueryArgs = PageArgs & { selector: string; type?: string; regex?: boolean };
+type ConsoleArgs = PageArgs & { durationMs?: number; levels?: string[] };
+
+interface Tool<T> {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema<T>;
+  handler: (args: T, context: ToolContext) => Promise<unknown>;
+}
+
+interface ToolContext {
+  connection: ReturnType<typeof keepConnected>;
+}
+
+const pageProperties = {
+  offset: { type: 'integer', minimum: 0, description: 'Index of the first item to return' },
+  limit: { type: 'integer', minimum: 1, description: `Items per page (default ${DEFAULT_PAGE_SIZE})` },
+} as const satisfies ObjectSchema<PageArgs>['properties'];
+
+const noArgs: ObjectSchema<NoArgs> = { type: 'object', properties: {}, additionalProperties: false };
+
+const TEXTURE_SORT_FIELDS: Array<keyof TextureInfo> = ['index', 'label', 'width', 'height', 'pixelWidth', 'pixelHeight', 'format'];
+
+const tool = <T>(definition: Tool<T>): Tool<unknown> => definition as unknown as Tool<unknown>;
+
+const TOOLS: Array<Tool<unknown>> = [
+  tool<NoArgs>({
+    name: 'pixi_info',
+    description: 'PixiJS version and whether an app, stage and renderer were found (PixiInfo).',
+    inputSchema: noArgs,
+    handler: (_, { connection }) => connection.run(d => d.getInfo()),
+  }),
+  tool<SceneArgs>({
+    name: 'pixi_scene',
+    description: 'Scene graph (SceneNode tree). Use maxDepth and rootId to walk large scenes lazily: ' +
+      'nodes with childCount have elided children. flat=true returns a paginated list of nodes with paths.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        rootId: { type: 'string', description: 'Node id (node_N) or name path to start from' },
+        maxDepth: { type: 'integer', minimum: 0, description: 'Levels below the root to include (default 3)' },
+        fields: { type: 'array', items: { type: 'string', enum: SCENE_FIELDS }, description: 'Properties to include' },
+        flat: { type: 'boolean', description: 'Return a flat, paginated node list' },
+        ...pageProperties,
+      },
+      additionalProperties: false,
+    },
+    handler: async (args, { connection }) => {
+      const graph = await connection.run(d => d.getSceneGraph({
+        rootId: args.rootId,
+        maxDepth: args.maxDepth ?? 3,
+        fields: args.fields,
+      }));
+      if ('error' in graph || !args.flat) return graph;
+      return paginate(flattenSceneGraph(graph), args);
+    },
+  }),
+  tool<NoArgs>({
+    name: 'pixi_stats',
+    description: 'Node counts by type plus filter and mask totals (SceneStats).',
+    inputSchema: noArgs,
+    handler: (_, { connection }) => connection.run(d => d.getStats()),
+  }),
+  tool<TextureArgs>({
+    name: 'pixi_textures',
+    description: 'Managed GPU textures (TextureInfo), paginated.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        all: { type: 'boolean', description: 'Include GPU-only sources such as render textures' },
+        sort: { type: 'string', enum: TEXTURE_SORT_FIELDS, description: 'Sort field (numbers descending)' },
+        ...pageProperties,
+      },
+      additionalProperties: false,
+    },
+    handler: async (args, { connection }) => {
+      const textures = await connection.run(d => d.getTextures({ all: args.all }));
+      if (!Array.isArray(textures)) return textures;
+      if (args.sort) {
+        const field = args.sort;
+        textures.sort((a, b) => typeof a[field] === 'number' && typeof b[field] === 'number'
+          ? (b[field] as number) - (a[field] as number)
+          : String(a[field]).localeCompare(String(b[field])));
+      }
+      return paginate(textures, args);
+    },
+  }),
+  tool<CaptureArgs>({
+    name: 'pixi_capture',
+    description: 'Profile one frame (CaptureData): render time, draw calls, pipe timings, draw order, scene totals, memory. ' +
+      'Instructions are omitted unless requested; use pixi_inspect to page through them.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeInstructions: { type: 'boolean', description: 'Include the full instruction tree (large)' },
+      },
+      additionalProperties: false,
+    },
+    handler: async (args, { connection }) => {
+      const capture = await connection.run(d => d.capture());
+      if (args.includeInstructions || 'error' in capture) return capture;
+      const { instructions: _, ...rest } = capture;
+      return rest;
+    },
+  }),
+  tool<InspectArgs>({
+    name: 'pixi_inspect',
+    description: 'Render instructions from a frame capture. Without index: paginated summary; with index: full details ' +
+      '(shader sources, textures, renderables).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        index: { type: 'integer', minimum: 0, description: 'Instruction index for full details' },
+        filter: { type: 'string', description: 'Regex on instruction type (batch, filter, mask, ...)' },
+        ...pageProperties,
+      },
+      additionalProperties: false,
+    },
+    handler: async (args, { connection }) => {
+      const capture = await connection.run(d => d.capture());
+      if ('error' in capture) return capture;
+
+      let instructions = capture.instructions;
+      if (args.filter) {
+        const pattern = new RegExp(args.filter, 'i');
+        instructions = instructions.filter(i => pattern.test(i.type));
+      }
+      if (args.index !== undefined) {
+        return instructions.find(i => i.index === args.index) ?? { error: `Instruction ${args.index} not found` };
+      }
+      return paginate(instructions.map(({ index, type, action, depth }) => ({ index, type, action, depth })), args);
+    },
+  }),
+  tool<QueryArgs>({
+    name: 'pixi_query',
+    description: 'Find nodes by name or id pattern (glob like *Button*, or regex), optionally filtered by type.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string', description: 'Glob (default) or regex matched against name and id' },
+        type: { type: 'string', description: 'Node type pattern (Sprite, Container, ...)' },
+        regex: { type: 'boolean', description: 'Treat selector and type as regular expressions' },
+        ...pageProperties,
+      },
+      required: ['selector'],
+      additionalProperties: false,
+    },
+    handler: async (args, { connection }) => {
+      const graph = await connection.run(d => d.getSceneGraph());
+      if ('error' in graph) return graph;
+      return paginate(queryNodes(flattenSceneGraph(graph), args.selector, args), args);
+    },
+  }),
+  tool<ConsoleArgs>({
+    name: 'pixi_console',
+    description: 'Collect browser console output for a short period and return it, paginated.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        durationMs: { type: 'integer', minimum: 0, description: 'How long to listen (default 2000)' },
+        levels: { type: 'array', items: { type: 'string', enum: ['log', 'info', 'warn', 'error', 'debug'] }, description: 'Levels to keep' },
+        ...pageProperties,
+      },
+      additionalProperties: false,
+    },
+    handler: async (args, { connection }) => {
+      const entries: Array<{ level: string; message: string; timestamp: number; source?: string }> = [];
+      await connection.run(async d => {
+        const stop = await d.watchConsole(entry => entries.push(entry), args.levels);
+        await new Promise(resolve => setTimeout(resolve, args.durationMs ?? 2000));
+        stop();
+      });
+      return paginate(entries, args);
+    },
+  }),
+];
+
+interface RpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+/** Serve MCP on stdin/stdout until stdin closes. Diagnostics go to stderr. */
+export async function serveMcp(options: McpOptions = {}): Promise<void> {
+  const { maxOutput = DEFAULT_MAX_OUTPUT, ...cdpOptions } = options;
+  const connection = keepConnected(cdpOptions);
+  const context: ToolContext = { connection };
+
+  const send = (message: unknown) => process.stdout.write(`${JSON.stringify(message)}\n`);
+  const lines = createInterface({ input: process.stdin });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let message: RpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      continue;
+    }
+
+    // Notifications (no id) need no response
+    if (message.id === undefined || message.id === null) continue;
+
+    try {
+      const result = await handle(message, context, maxOutput);
+      send({ jsonrpc: '2.0', id: message.id, result });
+    } catch (err) {
+      const error = err as Error & { code?: number };
+      send({ jsonrpc: '2.0', id: message.id, error: { code: error.code ?? -32603, message: error.message } });
+    }
+  }
+
+  await connection.close();
+}
+
+async function handle(message: RpcMessage, context: ToolContext, maxOutput: number): Promise<unknown> {
+  switch (message.method) {
+    case 'initialize': {
+      const requested = message.params?.protocolVersion;
+      return {
+        protocolVersion: typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSION,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'pixi-devtools-cli', version: '1.0.0' },
+      };
+    }
+
+    case 'ping':
+      return {};
+
+    case 'tools/list':
+      return {
+        tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+      };
+
+    case 'tools/call': {
+      const name = message.params?.name;
+      const found = TOOLS.find(t => t.name === name);
+      if (!found) {
+        throw Object.assign(new Error(`Unknown tool: ${String(name)}`), { code: -32602 });
+      }
+
+      try {
+        const value = await found.handler(message.params?.arguments ?? {}, context);
+        const isError = !!value && typeof value === 'object' && 'error' in value;
+        return { content: [{ type: 'text', text: limitOutput(value, maxOutput) }], isError };
+      } catch (err) {
+        return { content: [{ type: 'text', text: (err as Error).message }], isError: true };
+      }
+    }
+
+    default:
+      throw Object.assign(new Error(`Method not found: ${message.method}`), { code: -32601 });
+  }
+}
+
+function paginate<T>(items: T[], args: PageArgs): { total: number; offset: number; count: number; nextOffset: number | null; items: T[] } {
+  const offset = args.offset ?? 0;
+  const limit = args.limit ?? DEFAULT_PAGE_SIZE;
+  const page = items.slice(offset, offset + limit);
+  const next = offset + page.length;
+  return { total: items.length, offset, count: page.length, nextOffset: next < items.length ? next : null, items: page };
+}
+
+/**
+ * Serialise a tool result within the output budget. Pages are shrunk until they
+ * fit (nextOffset then points at the first item left out); anything else is cut
+ * off with a note on how to narrow the request.
+ */
+function limitOutput(value: unknown, maxOutput: number): string {
+  let text = JSON.stringify(value, null, 2);
+  if (text.length <= maxOutput) return text;
+
+  const page = value as { items?: unknown[]; offset?: number; total?: number };
+  if (Array.isArray(page.items)) {
+    let items = page.items;
+    while (items.length > 1 && text.length > maxOutput) {
+      items = items.slice(0, Math.floor(items.length / 2));
+      const next = (page.offset ?? 0) + items.length;
+      text = JSON.stringify({ ...page, count: items.length, nextOffset: next < (page.total ?? 0) ? next : null, items }, null, 2);
+    }
+    if (text.length <= maxOutput) return text;
+  }
+
+  return `${text.slice(0, maxOutput)}\n... [truncated ${text.length - maxOutput} characters; ` +
+    'narrow the request with maxDepth, rootId, fields, filter or a smaller limit]';
+}
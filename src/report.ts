@@ -0,0 +1,344 @@
+// Self-contained HTML report of a frame capture: summary, draw-order timeline,
+// pipe timings, instruction tree with shader sources, textures, scene totals
+// and memory. No external resources, so the file can be attached anywhere.
+
+import type { CaptureData, CaptureInstruction, RenderingInfo } from './debugger.js';
+
+export interface CaptureReportMeta {
+  url?: string;
+  pixiVersion?: string;
+  rendering?: RenderingInfo;
+  /** ISO time of the capture; defaults to now */
+  capturedAt?: string;
+}
+
+/** A texture referenced by the captured instructions */
+interface ReportTexture {
+  label: string;
+  width?: number;
+  height?: number;
+  pixelWidth?: number;
+  pixelHeight?: number;
+  format?: string;
+  instructions: number[];
+}
+
+const PIPE_COLORS = ['#4e79a7', '#f28e2b', '#59a14f', '#e15759', '#76b7b2', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+
+const GLSL_KEYWORDS = [
+  'attribute', 'uniform', 'varying', 'in', 'out', 'inout', 'const', 'precision', 'highp', 'mediump', 'lowp',
+  'if', 'else', 'for', 'while', 'do', 'return', 'break', 'continue', 'discard', 'struct', 'layout',
+  // WGSL
+  'fn', 'let', 'var', 'alias', 'override', 'loop', 'switch', 'case', 'default',
+];
+const GLSL_TYPES = /^(void|bool|int|uint|float|double|[biud]?vec[234]|mat[234](x[234])?|sampler\w*|texture_\w+|f32|f16|i32|u32|vec[234][fhiu]?|mat[234]x[234][fh]?|array|ptr|atomic)$/;
+
+export function renderCaptureReport(capture: CaptureData, meta: CaptureReportMeta = {}): string {
+  const capturedAt = meta.capturedAt ?? new Date().toISOString();
+  const pipes = Object.keys(capture.pipeTimings).sort();
+  const colorOf = (pipe: string) => PIPE_COLORS[pipes.indexOf(pipe) % PIPE_COLORS.length] ?? '#999';
+
+  const sections = [
+    renderSummary(capture, meta, capturedAt),
+    section('Draw order', renderTimeline(capture, colorOf)),
+    section('Pipe timings', renderPipeTimings(capture, colorOf)),
+    section(`Instructions (${capture.instructions.length})`, renderInstructionTree(capture.instructions)),
+    section('Textures', renderTextures(collectTextures(capture.instructions))),
+    section('Scene totals', keyValueTable(capture.totals)),
+    section('Memory', capture.memory
+      ? keyValueTable(Object.fromEntries(Object.entries(capture.memory).map(([key, mb]) => [key, `${mb} MB`])))
+      : '<p class="muted">Not available (performance.memory is Chromium-only)</p>'),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>PixiJS frame capture${meta.url ? ' - ' + escapeHtml(meta.url) : ''}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${sections.join('\n')}
+<script type="application/json" id="capture-data">${JSON.stringify({ meta: { ...meta, capturedAt }, capture }).replace(/</g, '\\u003c')}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function renderSummary(capture: CaptureData, meta: CaptureReportMeta, capturedAt: string): string {
+  const cards: Array<[string, string]> = [
+    ['Render time', `${capture.renderTime.toFixed(2)} ms`],
+    ['Profiled render', `${capture.profiledRenderTime.toFixed(2)} ms`],
+    ['Draw calls', String(capture.drawCalls)],
+    ['Instructions', String(capture.instructionCount)],
+    ['Canvas', `${capture.canvas.width}×${capture.canvas.height} @${capture.canvas.resolution}x`],
+  ];
+  if (capture.gpu) {
+    cards.push(
+      ['Pipeline switches', String(capture.gpu.pipelineSwitches)],
+      ['Bind group changes', String(capture.gpu.bindGroupChanges)],
+      ['Render passes', String(capture.gpu.renderPasses)],
+    );
+  }
+
+  const details = [
+    meta.url && `<a href="${escapeHtml(meta.url)}">${escapeHtml(meta.url)}</a>`,
+    meta.pixiVersion && `PixiJS ${escapeHtml(meta.pixiVersion)}`,
+    `${capture.pipeline} pipeline`,
+    meta.rendering && escapeHtml(meta.rendering.type),
+    escapeHtml(capturedAt),
+  ].filter(Boolean);
+
+  return `<header>
+<h1>PixiJS frame capture</h1>
+<p class="muted">${details.join(' · ')}</p>
+<div class="cards">${cards.map(([label, value]) => `<div class="card"><div class="value">${escapeHtml(value)}</div><div class="label">${label}</div></div>`).join('')}</div>
+</header>`;
+}
+
+/** One segment per draw-order entry; width by time, with a minimum so every entry stays visible */
+function renderTimeline(capture: CaptureData, colorOf: (pipe: string) => string): string {
+  if (capture.drawOrder.length === 0) return '<p class="muted">No draws recorded</p>';
+
+  const total = capture.drawOrder.reduce((sum, entry) => sum + entry.time, 0) || 1;
+  const segments = capture.drawOrder.map((entry, i) => {
+    const title = `#${i} ${entry.pipe}: ${entry.drawCalls} draw call${entry.drawCalls === 1 ? '' : 's'}, ${entry.time.toFixed(3)} ms`;
+    return `<div class="segment" style="flex-grow:${Math.max(entry.time / total, 0.002)};background:${colorOf(entry.pipe)}" title="${escapeHtml(title)}"></div>`;
+  });
+  const legend = [...new Set(capture.drawOrder.map(entry => entry.pipe))]
+    .map(pipe => `<span><i style="background:${colorOf(pipe)}"></i>${escapeHtml(pipe)}</span>`);
+
+  return `<div class="timeline">${segments.join('')}</div>
+<div class="legend">${legend.join('')}</div>
+<p class="muted">${capture.drawOrder.length} draw-order entries in execution order; hover a segment for details.</p>`;
+}
+
+function renderPipeTimings(capture: CaptureData, colorOf: (pipe: string) => string): string {
+  const entries = Object.entries(capture.pipeTimings).sort((a, b) => b[1].time - a[1].time);
+  if (entries.length === 0) return '<p class="muted">No pipes recorded</p>';
+
+  const max = Math.max(...entries.map(([, timing]) => timing.time)) || 1;
+  const gpu = entries.some(([, timing]) => timing.pipelineSwitches !== undefined);
+  const head = ['Pipe', 'Time (ms)', '', 'Calls', 'Draw calls', ...(gpu ? ['Pipelines', 'Bind groups', 'Passes'] : [])];
+  const rows = entries.map(([pipe, timing]) => [
+    `<span class="swatch" style="background:${colorOf(pipe)}"></span>${escapeHtml(pipe)}`,
+    `<span class="num">${timing.time.toFixed(3)}</span>`,
+    `<div class="bar" style="width:${((timing.time / max) * 100).toFixed(1)}%;background:${colorOf(pipe)}"></div>`,
+    `<span class="num">${timing.calls}</span>`,
+    `<span class="num">${timing.drawCalls}</span>`,
+    ...(gpu ? [timing.pipelineSwitches, timing.bindGroupChanges, timing.renderPasses].map(n => `<span class="num">${n ?? ''}</span>`) : []),
+  ]);
+  return table(head, rows, 'timings');
+}
+
+/** Instructions nest by depth (v8 render groups, v7 nested pushes), in execution order */
+function renderInstructionTree(instructions: CaptureInstruction[]): string {
+  if (instructions.length === 0) return '<p class="muted">No instructions</p>';
+
+  let html = '<p><button type="button" data-toggle="open">Expand all</button> <button type="button" data-toggle="close">Collapse all</button></p>\n<div class="tree">';
+  const open: number[] = [];
+  for (const instruction of instructions) {
+    while (open.length > 0 && open[open.length - 1] >= instruction.depth) {
+      html += '</div></details>';
+      open.pop();
+    }
+    html += `<details><summary><span class="index">#${instruction.index}</span> <b>${escapeHtml(instruction.type)}</b> <span class="muted">${escapeHtml(instruction.action)}</span>${instructionHint(instruction)}</summary><div class="body">${renderInstructionDetails(instruction)}`;
+    open.push(instruction.depth);
+  }
+  html += '</div></details>'.repeat(open.length);
+  return html + '</div>';
+}
+
+function instructionHint(instruction: CaptureInstruction): string {
+  const hints: string[] = [];
+  if (Array.isArray(instruction.textures)) hints.push(`${instruction.textures.length} texture${instruction.textures.length === 1 ? '' : 's'}`);
+  if (Array.isArray(instruction.filters)) hints.push((instruction.filters as Array<{ type?: string }>).map(f => f.type).join(', '));
+  if (typeof instruction.size === 'number') hints.push(`size ${instruction.size}`);
+  const renderable = instruction.renderable as { label?: string } | undefined;
+  if (renderable?.label) hints.push(renderable.label);
+  return hints.length ? ` <span class="hint">${escapeHtml(hints.join(' · '))}</span>` : '';
+}
+
+/** Instruction fields shown in the summary line or in their own sections */
+const HEADER_FIELDS = new Set(['index', 'type', 'action', 'depth', 'children', 'textures', 'filters']);
+
+function renderInstructionDetails(instruction: CaptureInstruction): string {
+  const rest = Object.entries(instruction).filter(([key]) => !HEADER_FIELDS.has(key));
+  const parts: string[] = [];
+
+  const scalars = rest.filter(([, value]) => !isObject(value) && !(Array.isArray(value) && value.some(isObject)));
+  if (scalars.length > 0) parts.push(keyValueTable(Object.fromEntries(scalars)));
+
+  const { textures, filters } = instruction;
+  if (Array.isArray(textures) && textures.length > 0) {
+    parts.push('<h4>Textures</h4>' + renderTextures((textures as ReportTexture[]).map(t => ({ ...t, instructions: [] })), false));
+  }
+
+  if (Array.isArray(filters)) {
+    for (const filter of filters as Array<Record<string, unknown> & { program?: { vertex?: string; fragment?: string } }>) {
+      const { program, ...props } = filter;
+      parts.push(`<h4>${escapeHtml(String(filter.type ?? 'Filter'))}</h4>` + keyValueTable(flattenDetails(props)));
+      if (program?.vertex) parts.push(shaderBlock('Vertex shader', program.vertex));
+      if (program?.fragment) parts.push(shaderBlock('Fragment shader', program.fragment));
+    }
+  }
+
+  for (const [key, value] of rest) {
+    if (isObject(value)) {
+      parts.push(`<h4>${escapeHtml(key)}</h4>` + keyValueTable(flattenDetails(value)));
+    } else if (Array.isArray(value) && value.some(isObject)) {
+      value.forEach((item, i) => {
+        if (isObject(item)) parts.push(`<h4>${escapeHtml(key)} ${i}</h4>` + keyValueTable(flattenDetails(item)));
+      });
+    }
+  }
+
+  return parts.join('\n') || '<p class="muted">No details</p>';
+}
+
+function shaderBlock(title: string, source: string): string {
+  return `<details class="shader"><summary>${title} <span class="muted">(${source.split('\n').length} lines)</span></summary><pre><code>${highlightShader(source)}</code></pre></details>`;
+}
+
+/** GLSL/WGSL highlighting: comments, preprocessor lines, attributes, keywords, types, numbers and calls */
+export function highlightShader(source: string): string {
+  const token = /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|(^[ \t]*#[^\n]*)|(@\w+)|(\b\d+\.?\d*(?:e[+-]?\d+)?[fuhi]?\b|\.\d+\b)|([A-Za-z_]\w*)(\s*\()?/gm;
+  let html = '';
+  let last = 0;
+  for (const match of source.matchAll(token)) {
+    html += escapeHtml(source.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const [text, comment, preprocessor, attribute, number, word, call] = match;
+    if (comment) html += span('comment', comment);
+    else if (preprocessor) html += span('pre', preprocessor);
+    else if (attribute) html += span('attr', attribute);
+    else if (number) html += span('number', number);
+    else if (GLSL_KEYWORDS.includes(word)) html += span('keyword', word) + escapeHtml(call ?? '');
+    else if (GLSL_TYPES.test(word)) html += span('type', word) + escapeHtml(call ?? '');
+    else if (call) html += span('call', word) + escapeHtml(call);
+    else html += escapeHtml(text);
+  }
+  return html + escapeHtml(source.slice(last));
+}
+
+/** Distinct textures over all instructions, with the instructions that bind them */
+function collectTextures(instructions: CaptureInstruction[]): ReportTexture[] {
+  const textures = new Map<string, ReportTexture>();
+  const add = (texture: unknown, index: number) => {
+    if (!isObject(texture) || typeof texture.label !== 'string') return;
+    const t = texture as unknown as ReportTexture;
+    const key = `${t.label}|${t.pixelWidth}x${t.pixelHeight}|${t.format}`;
+    const entry = textures.get(key) ?? { ...t, instructions: [] };
+    if (!entry.instructions.includes(index)) entry.instructions.push(index);
+    textures.set(key, entry);
+  };
+
+  for (const instruction of instructions) {
+    if (Array.isArray(instruction.textures)) instruction.textures.forEach(t => add(t, instruction.index));
+    const renderable = instruction.renderable as { texture?: unknown } | undefined;
+    if (renderable?.texture) add(renderable.texture, instruction.index);
+    if (Array.isArray(instruction.renderables)) {
+      (instruction.renderables as Array<{ texture?: unknown }>).forEach(r => add(r.texture, instruction.index));
+    }
+  }
+  return [...textures.values()];
+}
+
+function renderTextures(textures: ReportTexture[], withUsage = true): string {
+  if (textures.length === 0) return '<p class="muted">No textures referenced</p>';
+  const head = ['Label', 'Size', 'Pixels', 'Format', ...(withUsage ? ['Instructions'] : [])];
+  const rows = textures.map(t => [
+    escapeHtml(t.label),
+    `<span class="num">${t.width ?? '?'}×${t.height ?? '?'}</span>`,
+    `<span class="num">${t.pixelWidth ?? '?'}×${t.pixelHeight ?? '?'}</span>`,
+    escapeHtml(String(t.format ?? '')),
+    ...(withUsage ? [t.instructions.map(i => `#${i}`).join(', ')] : []),
+  ]);
+  return table(head, rows);
+}
+
+function section(title: string, body: string): string {
+  return `<section>\n<h2>${escapeHtml(title)}</h2>\n${body}\n</section>`;
+}
+
+function table(head: string[], rows: string[][], className = ''): string {
+  return `<table${className ? ` class="${className}"` : ''}><thead><tr>${head.map(h => `<th>${h}</th>`).join('')}</tr></thead><tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+function keyValueTable(values: Record<string, unknown>): string {
+  const rows = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [escapeHtml(key), escapeHtml(value === null ? 'null' : typeof value === 'object' ? JSON.stringify(value) : String(value))]);
+  return rows.length ? table(['Property', 'Value'], rows, 'kv') : '';
+}
+
+/** Nested objects as dotted keys, one level of points and states at a time */
+function flattenDetails(value: Record<string, unknown>, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, v] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isObject(v)) flattenDetails(v, path, out);
+    else out[path] = v;
+  }
+  return out;
+}
+
+function span(className: string, text: string): string {
+  return `<span class="${className}">${escapeHtml(text)}</span>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const STYLES = `
+body { font: 14px/1.45 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0 auto; max-width: 1200px; padding: 24px; color: #1f2328; }
+h1 { margin: 0 0 4px; font-size: 22px; }
+h2 { font-size: 17px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; margin-top: 32px; }
+h4 { margin: 12px 0 4px; }
+a { color: #0969da; }
+.muted { color: #656d76; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 16px; }
+.card { border: 1px solid #d0d7de; border-radius: 6px; padding: 8px 14px; min-width: 120px; }
+.card .value { font-size: 18px; font-weight: 600; }
+.card .label { color: #656d76; font-size: 12px; }
+.timeline { display: flex; height: 28px; border: 1px solid #d0d7de; border-radius: 4px; overflow: hidden; }
+.timeline .segment { flex-basis: 0; min-width: 2px; border-right: 1px solid #fff; }
+.legend { display: flex; flex-wrap: wrap; gap: 14px; margin-top: 6px; font-size: 12px; }
+.legend i, .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 5px; vertical-align: middle; }
+table { border-collapse: collapse; margin: 6px 0; font-size: 13px; }
+th, td { border-bottom: 1px solid #eaeef2; padding: 3px 10px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+.num { font-variant-numeric: tabular-nums; }
+table.timings td:nth-child(3) { width: 300px; }
+.bar { height: 10px; border-radius: 2px; }
+table.kv td:first-child { color: #656d76; white-space: nowrap; }
+table.kv td:last-child { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; word-break: break-all; }
+.tree details { margin-left: 18px; }
+.tree > details { margin-left: 0; }
+.tree summary { cursor: pointer; padding: 1px 0; }
+.tree .body { border-left: 2px solid #eaeef2; padding-left: 10px; margin: 2px 0 6px 4px; }
+.index { color: #656d76; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+.hint { color: #656d76; font-size: 12px; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 10px; overflow: auto; max-height: 480px; font-size: 12px; }
+.comment { color: #6e7781; font-style: italic; }
+.pre, .attr { color: #8250df; }
+.keyword { color: #cf222e; }
+.type { color: #0550ae; }
+.number { color: #0a3069; }
+.call { color: #8250df; }
+button { font: inherit; font-size: 12px; }
+`;
+
+const SCRIPT = `
+document.querySelectorAll('[data-toggle]').forEach(function (button) {
+  button.addEventListener('click', function () {
+    var open = button.getAttribute('data-toggle') === 'open';
+    document.querySelectorAll('.tree details').forEach(function (d) { d.open = open; });
+  });
+});
+`;
@@ -0,0 +1,299 @@
+// Scene graph helpers shared by the CLI and programmatic users:
+// flattening, querying, snapshots and structural diffs
+
+import type { SceneNode } from './debugger.js';
+
+export interface FlatNode {
+  id: string;
+  name: string;
+  type: string;
+  path: string;
+  depth: number;
+  visible: boolean;
+  alpha: number;
+  position: { x: number; y: number };
+}
+
+export function flattenSceneGraph(
+  node: { id: string; name: string; type: string; visible: boolean; alpha: number; position: { x: number; y: number }; depth: number; children?: unknown[] },
+  path = '',
+  result: FlatNode[] = []
+): FlatNode[] {
+  const currentPath = path ? `${path}/${node.name}` : node.name;
+
+  result.push({
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    path: currentPath,
+    depth: node.depth,
+    visible: node.visible,
+    alpha: node.alpha,
+    position: node.position,
+  });
+
+  if (node.children && Array.isArray(node.children)) {
+    for (const child of node.children) {
+      flattenSceneGraph(child as typeof node, currentPath, result);
+    }
+  }
+
+  return result;
+}
+
+export function globToRegex(glob: string): string {
+  return glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')  // escape regex special chars except * and ?
+    .replace(/\*/g, '.*')                   // * -> .*
+    .replace(/\?/g, '.');                   // ? -> .
+}
+
+/** Filter flattened nodes by name/id pattern (glob, or regex) and optionally by type */
+export function queryNodes(
+  flat: FlatNode[],
+  selector: string,
+  options: { type?: string; regex?: boolean } = {}
+): FlatNode[] {
+  const pattern = options.regex
+    ? new RegExp(selector, 'i')
+    : new RegExp(globToRegex(selector), 'i');
+  let matches = flat.filter(node => pattern.test(node.name) || pattern.test(node.id));
+
+  if (options.type) {
+    const typePattern = options.regex
+      ? new RegExp(options.type, 'i')
+      : new RegExp(globToRegex(options.type), 'i');
+    matches = matches.filter(node => typePattern.test(node.type));
+  }
+
+  return matches;
+}
+
+export interface SceneSnapshot {
+  version: 1;
+  savedAt: string;
+  url: string;
+  pixiVersion: string;
+  /** Identifies the page load the snapshot was taken in; absent in older snapshots */
+  session?: string;
+  root: SceneNode;
+}
+
+/**
+ * How nodes are paired between two snapshots:
+ * - uid: PixiJS v8 container uid, survives reconnects and reparenting
+ * - path: label path with sibling indices, survives page reloads
+ * - auto: uid when every node in both snapshots carries one and both come
+ *   from the same page load (uids restart after a reload), otherwise path
+ */
+export type DiffMatch = 'auto' | 'uid' | 'path';
+
+export interface DiffNodeRef {
+  id: string;
+  path: string;
+  type: string;
+}
+
+export interface MovedNode extends DiffNodeRef {
+  fromPath: string;
+}
+
+export interface ChangedNode extends DiffNodeRef {
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface SceneDiff {
+  match: Exclude<DiffMatch, 'auto'>;
+  summary: {
+    added: number;
+    removed: number;
+    moved: number;
+    changed: number;
+  };
+  added: DiffNodeRef[];
+  removed: DiffNodeRef[];
+  moved: MovedNode[];
+  changed: ChangedNode[];
+}
+
+const COMPARED_PROPERTIES = [
+  'name', 'type', 'visible', 'alpha', 'position', 'scale', 'rotation', 'pivot',
+  'zIndex', 'tint', 'blendMode', 'texture', 'text', 'width', 'height',
+] as const;
+
+const EPSILON = 1e-6;
+
+interface IndexedNode {
+  node: SceneNode;
+  path: string;
+  parentKey: string | null;
+}
+
+export interface DiffOptions {
+  /** Both scenes come from the same page load; auto only matches by uid then */
+  sameSession?: boolean;
+}
+
+/** Whether two snapshots were taken without a page reload in between */
+export function isSameSession(a: SceneSnapshot, b: SceneSnapshot): boolean {
+  return a.session !== undefined && a.session === b.session;
+}
+
+export function diffScenes(before: SceneNode, after: SceneNode, match: DiffMatch = 'auto', options: DiffOptions = {}): SceneDiff {
+  const mode = match === 'auto'
+    ? (options.sameSession && hasUids(before) && hasUids(after) ? 'uid' : 'path')
+    : match;
+
+  if (mode === 'uid' && !(hasUids(before) && hasUids(after))) {
+    throw new Error('uid matching requires PixiJS v8 snapshots (nodes without uid found)');
+  }
+
+  const a = indexScene(before, mode);
+  const b = indexScene(after, mode);
+
+  const diff: SceneDiff = {
+    match: mode,
+    summary: { added: 0, removed: 0, moved: 0, changed: 0 },
+    added: [],
+    removed: [],
+    moved: [],
+    changed: [],
+  };
+
+  const removed: IndexedNode[] = [];
+  const added: IndexedNode[] = [];
+
+  for (const [key, entry] of a) {
+    const other = b.get(key);
+    if (!other) {
+      removed.push(entry);
+      continue;
+    }
+    if (mode === 'uid' && entry.parentKey !== other.parentKey) {
+      diff.moved.push({ ...toRef(other), fromPath: entry.path });
+    }
+    pushChanges(diff, entry, other);
+  }
+
+  for (const [key, entry] of b) {
+    if (!a.has(key)) added.push(entry);
+  }
+
+  // Path keys change on reparent, so pair up removed/added nodes that are
+  // unambiguous by name and type and report them as moves instead. A moved
+  // subtree is reported once, at its root; its descendants are paired by
+  // their path below it.
+  const paired = new Set<IndexedNode>();
+  if (mode === 'path') {
+    const signature = (e: IndexedNode) => `${e.node.type}\u0000${e.node.name}`;
+    const removedBySig = groupBy(removed, signature);
+    const addedBySig = groupBy(added, signature);
+    const addedByPath = new Map(added.map(e => [e.path, e]));
+    const depth = (e: IndexedNode) => e.path.split('/').length;
+
+    const roots: Array<[IndexedNode, IndexedNode]> = [];
+    for (const [sig, [from, ...restFrom]] of removedBySig) {
+      const candidates = addedBySig.get(sig);
+      if (restFrom.length > 0 || !candidates || candidates.length !== 1) continue;
+      roots.push([from, candidates[0]]);
+    }
+    roots.sort(([a], [b]) => depth(a) - depth(b));
+
+    for (const [from, to] of roots) {
+      if (paired.has(from) || paired.has(to)) continue;
+      diff.moved.push({ ...toRef(to), fromPath: from.path });
+      pushChanges(diff, from, to);
+      paired.add(from).add(to);
+
+      for (const entry of removed) {
+        if (paired.has(entry) || !entry.path.startsWith(from.path + '/')) continue;
+        const match = addedByPath.get(to.path + entry.path.slice(from.path.length));
+        if (!match || paired.has(match)) continue;
+        pushChanges(diff, entry, match);
+        paired.add(entry).add(match);
+      }
+    }
+  }
+
+  diff.added = added.filter(e => !paired.has(e)).map(toRef);
+  diff.removed = removed.filter(e => !paired.has(e)).map(toRef);
+  diff.summary = {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    moved: diff.moved.length,
+    changed: diff.changed.length,
+  };
+
+  return diff;
+}
+
+function hasUids(node: SceneNode): boolean {
+  return typeof node.uid === 'number' && (node.children || []).every(hasUids);
+}
+
+function indexScene(root: SceneNode, mode: 'uid' | 'path'): Map<string, IndexedNode> {
+  const index = new Map<string, IndexedNode>();
+
+  const visit = (node: SceneNode, path: string, key: string, parentKey: string | null) => {
+    index.set(key, { node, path, parentKey });
+
+    // Disambiguate same-named siblings by occurrence, e.g. "Sprite[2]". The
+    // first keeps the bare name, so adding or removing a later sibling leaves
+    // its path alone.
+    const seen = new Map<string, number>();
+    for (const child of node.children || []) {
+      const n = seen.get(child.name) || 0;
+      seen.set(child.name, n + 1);
+      const segment = n > 0 ? `${child.name}[${n}]` : child.name;
+      const childPath = `${path}/${segment}`;
+      const childKey = mode === 'uid' ? String(child.uid) : childPath;
+      visit(child, childPath, childKey, key);
+    }
+  };
+
+  visit(root, root.name, mode === 'uid' ? String(root.uid) : root.name, null);
+  return index;
+}
+
+function pushChanges(diff: SceneDiff, from: IndexedNode, to: IndexedNode): void {
+  const changes: ChangedNode['changes'] = {};
+
+  for (const prop of COMPARED_PROPERTIES) {
+    const x = from.node[prop];
+    const y = to.node[prop];
+    if (!valuesEqual(x, y)) {
+      changes[prop] = { from: x, to: y };
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    diff.changed.push({ ...toRef(to), changes });
+  }
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) < EPSILON;
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(k => valuesEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+  }
+  return a === b;
+}
+
+function toRef(entry: IndexedNode): DiffNodeRef {
+  return { id: entry.node.id, path: entry.path, type: entry.node.type };
+}
+
+/** Group items by a string key, keeping their order within each group */
+export function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
@@ -0,0 +1,155 @@
+// Texture helpers shared by the CLI and programmatic users: GPU memory
+// estimates, grouping and duplicate detection
+
+import type { TextureInfo } from './debugger.js';
+import { groupBy } from './scene.js';
+
+export interface TextureMemoryEntry {
+  index: number;
+  label: string;
+  format: string;
+  sourceType: TextureInfo['sourceType'];
+  pixelWidth: number;
+  pixelHeight: number;
+  mipLevelCount: number;
+  bytes: number;
+}
+
+export interface TextureMemoryGroup {
+  key: string;
+  count: number;
+  bytes: number;
+}
+
+/** One resource uploaded as several textures */
+export interface TextureDuplicate {
+  resourceKey: string;
+  count: number;
+  indices: number[];
+  labels: string[];
+  /** Bytes that would be freed by sharing a single upload */
+  wastedBytes: number;
+}
+
+export interface TextureMemoryReport {
+  count: number;
+  totalBytes: number;
+  byFormat: TextureMemoryGroup[];
+  bySourceType: TextureMemoryGroup[];
+  byLabelPrefix: TextureMemoryGroup[];
+  duplicates: TextureDuplicate[];
+  /** Formats without a known size; counted at 4 bytes per pixel */
+  unknownFormats: string[];
+  /** Largest first */
+  textures: TextureMemoryEntry[];
+}
+
+/** Uncompressed formats: bytes per pixel */
+const BYTES_PER_PIXEL: Record<string, number> = {
+  r8unorm: 1, r8snorm: 1, r8uint: 1, r8sint: 1,
+  r16uint: 2, r16sint: 2, r16float: 2,
+  rg8unorm: 2, rg8snorm: 2, rg8uint: 2, rg8sint: 2,
+  r32uint: 4, r32sint: 4, r32float: 4,
+  rg16uint: 4, rg16sint: 4, rg16float: 4,
+  rgba8unorm: 4, 'rgba8unorm-srgb': 4, rgba8snorm: 4, rgba8uint: 4, rgba8sint: 4,
+  bgra8unorm: 4, 'bgra8unorm-srgb': 4,
+  rgb9e5ufloat: 4, rgb10a2unorm: 4, rg11b10ufloat: 4,
+  rg32uint: 8, rg32sint: 8, rg32float: 8,
+  rgba16uint: 8, rgba16sint: 8, rgba16float: 8,
+  rgba32uint: 16, rgba32sint: 16, rgba32float: 16,
+  stencil8: 1, depth16unorm: 2, depth24plus: 4, 'depth24plus-stencil8': 4,
+  depth32float: 4, 'depth32float-stencil8': 5,
+};
+
+/** Block-compressed formats: [block width, block height, bytes per block] */
+function compressedBlock(format: string): [number, number, number] | null {
+  const astc = /^astc-(\d+)x(\d+)/.exec(format);
+  if (astc) return [parseInt(astc[1]), parseInt(astc[2]), 16];
+  if (/^(bc1|bc4|etc2-rgb8|eac-r11)/.test(format)) return [4, 4, 8];
+  if (/^(bc2|bc3|bc5|bc6h|bc7|etc2-rgba8|eac-rg11)/.test(format)) return [4, 4, 16];
+  return null;
+}
+
+export function isKnownFormat(format: string): boolean {
+  return format in BYTES_PER_PIXEL || compressedBlock(format) !== null;
+}
+
+/**
+ * Estimated GPU bytes for one texture: every level of the mip chain at the
+ * format's size. Antialiased render textures add a 4x multisampled color buffer.
+ */
+export function estimateTextureBytes(texture: Pick<TextureInfo, 'pixelWidth' | 'pixelHeight' | 'format' | 'mipLevelCount' | 'antialias' | 'sourceType'>): number {
+  const format = String(texture.format);
+  const block = compressedBlock(format);
+  const bpp = BYTES_PER_PIXEL[format] ?? 4;
+  const levels = Math.max(1, texture.mipLevelCount || 1);
+  let bytes = 0;
+
+  for (let level = 0; level < levels; level++) {
+    const width = Math.max(1, (texture.pixelWidth || 0) >> level);
+    const height = Math.max(1, (texture.pixelHeight || 0) >> level);
+    bytes += block
+      ? Math.ceil(width / block[0]) * Math.ceil(height / block[1]) * block[2]
+      : width * height * bpp;
+  }
+
+  if (texture.antialias && texture.sourceType === 'renderTexture') {
+    bytes += (texture.pixelWidth || 0) * (texture.pixelHeight || 0) * bpp * 4;
+  }
+
+  return bytes;
+}
+
+/** Leading segment of a label: the directory for paths and URLs, else the text before the first _ - . or : */
+export function labelPrefix(label: string): string {
+  const path = label.split(/[?#]/)[0];
+  const slash = path.lastIndexOf('/');
+  if (slash > 0) return path.slice(0, slash);
+  return path.split(/[_\-.:]/)[0] || label;
+}
+
+/** Memory report over live textures; destroyed ones are left out */
+export function summarizeTextureMemory(textures: TextureInfo[]): TextureMemoryReport {
+  const live = textures.filter(t => !t.destroyed);
+  const entries: TextureMemoryEntry[] = live.map(t => ({
+    index: t.index,
+    label: t.label,
+    format: String(t.format),
+    sourceType: t.sourceType,
+    pixelWidth: t.pixelWidth,
+    pixelHeight: t.pixelHeight,
+    mipLevelCount: t.mipLevelCount,
+    bytes: estimateTextureBytes(t),
+  }));
+  const bytesByIndex = new Map(entries.map(e => [e.index, e.bytes]));
+
+  const duplicates: TextureDuplicate[] = [];
+  for (const [resourceKey, group] of groupBy(live.filter(t => t.resourceKey), t => t.resourceKey!)) {
+    if (group.length < 2) continue;
+    const sizes = group.map(t => bytesByIndex.get(t.index)!);
+    duplicates.push({
+      resourceKey,
+      count: group.length,
+      indices: group.map(t => t.index),
+      labels: group.map(t => t.label),
+      wastedBytes: sizes.reduce((a, b) => a + b, 0) - Math.max(...sizes),
+    });
+  }
+
+  return {
+    count: entries.length,
+    totalBytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+    byFormat: sumGroups(entries, e => e.format),
+    bySourceType: sumGroups(entries, e => e.sourceType),
+    byLabelPrefix: sumGroups(entries, e => labelPrefix(e.label)),
+    duplicates: duplicates.sort((a, b) => b.wastedBytes - a.wastedBytes),
+    unknownFormats: [...new Set(entries.map(e => e.format).filter(f => !isKnownFormat(f)))],
+    textures: entries.sort((a, b) => b.bytes - a.bytes),
+  };
+}
+
+function sumGroups(entries: TextureMemoryEntry[], key: (entry: TextureMemoryEntry) => string): TextureMemoryGroup[] {
+  return [...groupBy(entries, key)]
+    .map(([k, group]) => ({ key: k, count: group.length, bytes: group.reduce((sum, e) => sum + e.bytes, 0) }))
+    .sort((a, b) => b.bytes - a.bytes);
+}
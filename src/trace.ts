@@ -0,0 +1,145 @@
+// Conversion of frame recordings to the Trace Event format read by Perfetto
+// and chrome://tracing
+
+import type { FrameRecording, GpuCounters } from './debugger.js';
+
+/** Subset of the Trace Event format used here; ts and dur are microseconds */
+export interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'C' | 'i' | 'M';
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  /** Scope of instant events */
+  s?: 't' | 'p' | 'g';
+  args?: Record<string, unknown>;
+}
+
+export interface TraceFile {
+  traceEvents: TraceEvent[];
+  displayTimeUnit: 'ms';
+  metadata: Record<string, unknown>;
+}
+
+export interface RecordingSummary {
+  frames: number;
+  complete: boolean;
+  duration: number;
+  frameTime: { avg: number; max: number; p95: number };
+  drawCalls: { avg: number; max: number };
+  rebuilds: number;
+  /** Pipes by total time across the recording */
+  pipes: Array<{ pipe: string; time: number; calls: number; drawCalls: number }>;
+}
+
+const PID = 1;
+const TID = 1;
+const GPU_COUNTERS: Array<keyof GpuCounters> = ['pipelineSwitches', 'bindGroupChanges', 'renderPasses'];
+
+/**
+ * Frames and pipe spans become complete ('X') events on one track, nested by
+ * time; draw calls, GPU encoder activity and JS heap are counter ('C') tracks;
+ * instruction rebuilds are instant ('i') events. Times start at the recording.
+ */
+export function toTraceEvents(recording: FrameRecording, metadata: Record<string, unknown> = {}): TraceFile {
+  const us = (ms: number) => Math.round((ms - recording.startTime) * 1000);
+  const events: TraceEvent[] = [
+    { name: 'process_name', ph: 'M', ts: 0, pid: PID, tid: TID, args: { name: `PixiJS (${recording.pipeline})` } },
+    { name: 'thread_name', ph: 'M', ts: 0, pid: PID, tid: TID, args: { name: 'render' } },
+  ];
+
+  for (const frame of recording.frames) {
+    const ts = us(frame.start);
+    events.push({
+      name: 'Frame',
+      cat: 'frame',
+      ph: 'X',
+      ts,
+      dur: Math.round(frame.duration * 1000),
+      pid: PID,
+      tid: TID,
+      args: { frame: frame.index, drawCalls: frame.drawCalls, ...frame.gpu },
+    });
+    events.push({ name: 'Draw calls', ph: 'C', ts, pid: PID, tid: TID, args: { drawCalls: frame.drawCalls } });
+    if (frame.gpu) {
+      events.push({ name: 'GPU encoder', ph: 'C', ts, pid: PID, tid: TID, args: { ...frame.gpu } });
+    }
+    if (frame.heapUsed !== null) {
+      events.push({ name: 'JS heap', ph: 'C', ts, pid: PID, tid: TID, args: { usedMB: Number((frame.heapUsed / 1048576).toFixed(2)) } });
+    }
+  }
+
+  for (const span of recording.spans) {
+    const args: Record<string, unknown> = { frame: span.frame, drawCalls: span.drawCalls };
+    for (const key of GPU_COUNTERS) {
+      if (span[key] !== undefined) args[key] = span[key];
+    }
+    events.push({
+      name: span.pipe,
+      cat: 'pipe',
+      ph: 'X',
+      ts: us(span.start),
+      dur: Math.round(span.duration * 1000),
+      pid: PID,
+      tid: TID,
+      args,
+    });
+  }
+
+  for (const rebuild of recording.rebuilds) {
+    events.push({
+      name: 'Instruction rebuild',
+      cat: 'instructions',
+      ph: 'i',
+      s: 't',
+      ts: us(rebuild.time),
+      pid: PID,
+      tid: TID,
+      args: { frame: rebuild.frame, instructionSet: rebuild.instructionSet },
+    });
+  }
+
+  return {
+    traceEvents: events,
+    displayTimeUnit: 'ms',
+    metadata: { pipeline: recording.pipeline, startedAt: recording.startedAt, complete: recording.complete, ...metadata },
+  };
+}
+
+export function summarizeRecording(recording: FrameRecording): RecordingSummary {
+  const { frames } = recording;
+  const times = frames.map(f => f.duration).sort((a, b) => a - b);
+  const draws = frames.map(f => f.drawCalls);
+  const round = (n: number) => Number(n.toFixed(3));
+  const avg = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+  const pipes = new Map<string, { pipe: string; time: number; calls: number; drawCalls: number }>();
+  for (const span of recording.spans) {
+    const entry = pipes.get(span.pipe) ?? { pipe: span.pipe, time: 0, calls: 0, drawCalls: 0 };
+    entry.time += span.duration;
+    entry.calls++;
+    entry.drawCalls += span.drawCalls;
+    pipes.set(span.pipe, entry);
+  }
+
+  return {
+    frames: frames.length,
+    complete: recording.complete,
+    duration: Math.round(recording.endTime - recording.startTime),
+    frameTime: {
+      avg: round(avg(times)),
+      max: round(times[times.length - 1] ?? 0),
+      p95: round(times[Math.floor(times.length * 0.95)] ?? 0),
+    },
+    drawCalls: {
+      avg: round(avg(draws)),
+      max: Math.max(0, ...draws),
+    },
+    rebuilds: recording.rebuilds.length,
+    pipes: [...pipes.values()]
+      .map(p => ({ ...p, time: round(p.time) }))
+      .sort((a, b) => b.time - a.time),
+  };
+}
@@ -0,0 +1,57 @@
+// Helpers for watching node properties: stop conditions from the command line
+// and a compact fixed-width table of samples
+
+import type { NodeSample, WatchCondition, WatchOperator } from './debugger.js';
+
+const CONDITION_PATTERN = /^\s*([\w.]+)\s*(==|!=|<=|>=|<|>)\s*(.+?)\s*$/;
+
+/**
+ * Parse "alpha==0", "position.x >= 100" or "visible==false". Values are
+ * numbers (anything Number() accepts, e.g. .5 or 1e-3), true/false, or
+ * strings (quote them to compare a numeric-looking string).
+ */
+export function parseWatchCondition(expression: string): WatchCondition {
+  const match = CONDITION_PATTERN.exec(expression);
+  if (!match) {
+    throw new Error(`Invalid condition: ${expression} (expected e.g. "alpha==0" or "position.x>=100")`);
+  }
+
+  const [, field, op, raw] = match;
+  let value: WatchCondition['value'];
+  if (raw === 'true' || raw === 'false') value = raw === 'true';
+  else if (Number.isFinite(Number(raw))) value = Number(raw);
+  else value = raw.replace(/^(['"])(.*)\1$/, '$2');
+
+  if (typeof value !== 'number' && op !== '==' && op !== '!=') {
+    throw new Error(`Operator ${op} needs a number: ${expression}`);
+  }
+  return { field, op: op as WatchOperator, value };
+}
+
+/** Table columns for the watched fields; points get one column per axis */
+export function watchColumns(fields: string[], sample: NodeSample): string[] {
+  const columns = ['frame'];
+  for (const field of fields) {
+    const value = sample.values[field];
+    if (value && typeof value === 'object') columns.push(`${field}.x`, `${field}.y`);
+    else columns.push(field);
+  }
+  return columns;
+}
+
+/** One fixed-width table row; numbers are rounded to 3 decimals */
+export function formatWatchRow(columns: string[], sample: NodeSample | null, width = 12): string {
+  const cells = columns.map(column => {
+    if (!sample) return column;
+    if (column === 'frame') return String(sample.frame);
+    const value = column in sample.values ? sample.values[column] : readAxis(sample.values, column);
+    return typeof value === 'number' ? String(Number(value.toFixed(3))) : String(value);
+  });
+  return cells.map(cell => cell.padStart(Math.max(width, cell.length))).join(' ');
+}
+
+function readAxis(values: Record<string, unknown>, column: string): unknown {
+  const dot = column.lastIndexOf('.');
+  const point = values[column.slice(0, dot)] as Record<string, unknown> | null | undefined;
+  return point?.[column.slice(dot + 1)];
+}
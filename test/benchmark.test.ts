@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { BenchmarkData } from '../src/debugger.js';
+import { aggregateRuns, compareBenchmarks, formatComparison, parseRegression } from '../src/benchmark.js';
+
+function run(avg: number, props: Partial<BenchmarkData> = {}): BenchmarkData {
+  return {
+    mode: 'loop',
+    duration: 3000,
+    frameCount: 100,
+    fps: 1000 / avg,
+    frameTime: { avg, min: avg / 2, max: avg * 2, p50: avg, p95: avg * 1.5, p99: avg * 1.8 },
+    drawCalls: 10,
+    ...props,
+  };
+}
+
+describe('parseRegression', () => {
+  it('accepts percentages with or without a sign', () => {
+    expect(parseRegression('10%')).toBeCloseTo(0.1);
+    expect(parseRegression('2.5')).toBeCloseTo(0.025);
+    expect(parseRegression(' 0 % ')).toBe(0);
+  });
+
+  it('rejects anything else', () => {
+    for (const value of ['', 'abc', '-5%', '10%%', '1e2', '10 percent']) {
+      expect(() => parseRegression(value), value).toThrow(/Invalid regression threshold/);
+    }
+  });
+});
+
+describe('aggregateRuns', () => {
+  it('takes the median of every field', () => {
+    const result = aggregateRuns([run(10), run(30), run(20, { drawCalls: 12 })]);
+    expect(result.frameTime.avg).toBe(20);
+    expect(result.drawCalls).toBe(10);
+    expect(result.runs).toBe(3);
+  });
+
+  it('refuses to mix modes or aggregate nothing', () => {
+    expect(() => aggregateRuns([])).toThrow(/No benchmark runs/);
+    expect(() => aggregateRuns([run(10), run(10, { mode: 'realtime' })])).toThrow(/Cannot aggregate/);
+  });
+});
+
+describe('compareBenchmarks', () => {
+  it('flags metrics above the threshold', () => {
+    const comparison = compareBenchmarks(run(10), run(10.5, { drawCalls: 20 }), 0.1);
+    expect(comparison.regressed).toBe(true);
+    expect(comparison.metrics.map(m => [m.metric, m.regression])).toEqual([
+      ['frameTime.avg', false],
+      ['frameTime.p95', false],
+      ['frameTime.p99', false],
+      ['drawCalls', true],
+    ]);
+    expect(comparison.metrics[3].deltaRatio).toBe(1);
+  });
+
+  it('passes improvements and counts any increase from zero as a regression', () => {
+    expect(compareBenchmarks(run(10), run(5), 0).regressed).toBe(false);
+    const fromZero = compareBenchmarks(run(10, { drawCalls: 0 }), run(10, { drawCalls: 1 }), 0.5);
+    expect(fromZero.metrics[3]).toMatchObject({ deltaRatio: null, regression: true });
+  });
+
+  it('treats results without a mode as loop runs', () => {
+    const legacy = { ...run(10), mode: undefined } as unknown as BenchmarkData;
+    expect(() => compareBenchmarks(legacy, run(10), 0.1)).not.toThrow();
+    expect(() => compareBenchmarks(legacy, run(10, { mode: 'realtime' }), 0.1)).toThrow(/loop mode/);
+  });
+
+  it('formats a table with a verdict', () => {
+    const text = formatComparison(compareBenchmarks(run(10), run(10), 0.1));
+    expect(text.split('\n')[0]).toMatch(/^metric\s+baseline\s+current\s+delta\s+change$/);
+    expect(text).toContain('PASSED: all metrics within 10.0%');
+  });
+});
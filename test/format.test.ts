@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { formatOutput, formatSceneTree, toYaml } from '../src/format.js';
+
+describe('formatOutput', () => {
+  const rows = [
+    { id: 'node_1', position: { x: 1, y: 2 }, alpha: 1 },
+    { id: 'node_22', position: { x: 30, y: 4 }, alpha: 0.5 },
+  ];
+
+  it('prints JSON by default', () => {
+    expect(formatOutput({ a: 1 }, 'json')).toBe('{\n  "a": 1\n}');
+  });
+
+  it('aligns tables, right-aligning numeric columns', () => {
+    expect(formatOutput(rows, 'table', {}, ['id', 'position.x', 'alpha'])).toBe([
+      'id       position.x  alpha',
+      '-------  ----------  -----',
+      'node_1            1      1',
+      'node_22          30    0.5',
+    ].join('\n'));
+  });
+
+  it('uses the view columns, or every flattened key', () => {
+    expect(formatOutput(rows, 'csv', { columns: ['id'] })).toBe('id\nnode_1\nnode_22');
+    expect(formatOutput(rows, 'csv').split('\n')[0]).toBe('id,position.x,position.y,alpha');
+  });
+
+  it('turns non-list results into key/value rows', () => {
+    expect(formatOutput({ total: 3, by: { sprite: 2 } }, 'csv')).toBe('key,value\ntotal,3\nby.sprite,2');
+  });
+
+  it('quotes CSV cells and truncates long table cells', () => {
+    expect(formatOutput([{ label: 'a,"b"' }], 'csv')).toBe('label\n"a,""b"""');
+    const table = formatOutput([{ label: 'x'.repeat(100) }], 'table');
+    expect(table.split('\n')[2]).toBe('x'.repeat(59) + '…');
+  });
+
+  it('writes one JSON line per row for ndjson, projected to columns', () => {
+    expect(formatOutput(rows, 'ndjson', {}, ['id', 'position.y'])).toBe(
+      '{"id":"node_1","position.y":2}\n{"id":"node_22","position.y":4}'
+    );
+    expect(formatOutput({ a: 1 }, 'ndjson')).toBe('{"a":1}');
+  });
+
+  it('falls back to YAML for tree output without a tree view', () => {
+    expect(formatOutput({ a: 1 }, 'tree')).toBe('a: 1');
+    expect(formatOutput({ a: 1 }, 'tree', { tree: () => 'custom' })).toBe('custom');
+  });
+});
+
+describe('formatSceneTree', () => {
+  it('draws connectors, markers and elided children', () => {
+    const tree = formatSceneTree({
+      id: 'node_0', name: 'Stage', type: 'Container',
+      children: [
+        { id: 'node_1', name: 'hud', type: 'Container', visible: false, alpha: 0.25 },
+        { id: 'node_2', name: 'world', type: 'Container', childCount: 3 },
+      ],
+    });
+    expect(tree).toBe([
+      'Container "Stage"  node_0',
+      '├─ Container "hud"  node_1  [hidden, alpha 0.25]',
+      '└─ Container "world"  node_2',
+      '   └─ … 3 children',
+    ].join('\n'));
+  });
+});
+
+describe('toYaml', () => {
+  it('nests mappings and lists', () => {
+    expect(toYaml({ a: { b: [1, { c: 2 }] }, d: [] })).toBe([
+      'a:',
+      '  b:',
+      '    - 1',
+      '    - c: 2',
+      'd: []',
+    ].join('\n'));
+  });
+
+  it('quotes strings that would read as other types', () => {
+    expect(toYaml({ a: 'true', b: '12', c: 'plain', d: '', e: 'x: y', f: null })).toBe([
+      'a: "true"',
+      'b: "12"',
+      'c: plain',
+      'd: ""',
+      'e: "x: y"',
+      'f: null',
+    ].join('\n'));
+  });
+
+  it('writes multi-line strings as literal blocks', () => {
+    expect(toYaml({ src: 'void main() {\n}' })).toBe('src: |-\n  void main() {\n  }');
+  });
+});
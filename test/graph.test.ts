@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { SceneNode } from '../src/debugger.js';
+import { exportSceneGraph } from '../src/graph.js';
+
+function node(id: string, type: string, props: Partial<SceneNode> = {}, children: SceneNode[] = []): SceneNode {
+  return { id, name: id, type, visible: true, depth: 0, ...props, children } as SceneNode;
+}
+
+const sprites = (count: number, props: Partial<SceneNode> = {}) =>
+  Array.from({ length: count }, (_, i) => node(`s${i}`, 'Sprite', props));
+
+describe('exportSceneGraph', () => {
+  it('writes DOT nodes with type and label, and child edges', () => {
+    const dot = exportSceneGraph(node('stage', 'Container', {}, [node('hero', 'Sprite', { name: 'Hero' })]), 'dot');
+    expect(dot).toMatch(/^digraph scene \{/);
+    expect(dot).toContain('"hero" [label="Sprite\\nHero", fillcolor="#d4edda"];');
+    expect(dot).toContain('"stage" -> "hero";');
+    expect(dot.endsWith('}')).toBe(true);
+  });
+
+  it('escapes quotes and backslashes in DOT labels', () => {
+    const dot = exportSceneGraph(node('stage', 'Container', { name: 'say "hi" \\o/' }), 'dot');
+    expect(dot).toContain('label="Container\\nsay \\"hi\\" \\\\o/"');
+  });
+
+  it('collapses runs of same-type leaves from the threshold on', () => {
+    const root = node('stage', 'Container', {}, sprites(4));
+    expect(exportSceneGraph(root, 'dot', { collapse: 4 })).toContain('"s0_run" [label="Sprite ×4"');
+    expect(exportSceneGraph(root, 'dot', { collapse: 5 })).not.toContain('_run');
+    expect(exportSceneGraph(root, 'dot')).not.toContain('_run');
+  });
+
+  it('never merges nodes that act as masks', () => {
+    const root = node('stage', 'Container', {}, [
+      ...sprites(3),
+      node('masked', 'Container', { mask: { id: 's1', name: 's1', type: 'Sprite' } }),
+    ]);
+    const dot = exportSceneGraph(root, 'dot', { collapse: 2 });
+    expect(dot).not.toContain('_run');
+    expect(dot).toContain('"masked" -> "s1" [style=dashed');
+  });
+
+  it('adds a node for masks outside the exported tree', () => {
+    const root = node('stage', 'Container', { mask: { id: 'node_x1', name: 'shape', type: 'Graphics' } });
+    const dot = exportSceneGraph(root, 'dot');
+    expect(dot).toContain('"node_x1" [label="Graphics\\nshape"');
+  });
+
+  it('draws render groups as clusters and filters as hexagons', () => {
+    const root = node('stage', 'Container', {}, [node('ui', 'Container', { isRenderGroup: true, filters: ['BlurFilter'] })]);
+    const dot = exportSceneGraph(root, 'dot');
+    expect(dot).toContain('subgraph "cluster_group_ui" {');
+    expect(dot).toContain('"ui_filter_0" [label="BlurFilter", fillcolor="#fce4ec", shape=hexagon, style=filled];');
+    expect(dot).toContain('"ui" -> "ui_filter_0" [style=dotted');
+  });
+
+  it('writes Mermaid flowcharts with sanitized ids and classes', () => {
+    const root = node('stage', 'Container', {}, [node('node_0.1', 'Sprite', { name: 'say "hi"', visible: false })]);
+    const mermaid = exportSceneGraph(root, 'mermaid');
+    expect(mermaid.split('\n')[0]).toBe('flowchart LR');
+    expect(mermaid).toContain('node_0_1["Sprite<br/>say #quot;hi#quot;"]');
+    expect(mermaid).toContain('stage --> node_0_1');
+    expect(mermaid).toContain('class node_0_1 hidden');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { CaptureData } from '../src/debugger.js';
+import { highlightShader, renderCaptureReport } from '../src/report.js';
+
+function capture(props: Partial<CaptureData> = {}): CaptureData {
+  return {
+    pipeline: 'v8',
+    renderTime: 1.234,
+    profiledRenderTime: 1.5,
+    drawCalls: 2,
+    gpu: null,
+    instructionCount: 1,
+    totals: { containers: 1, sprites: 1, graphics: 0, meshes: 0, texts: 0, tilingSprites: 0, nineSliceSprites: 0, filters: 0, masks: 0 },
+    pipeTimings: { batch: { time: 0.5, calls: 1, drawCalls: 2 } },
+    instructions: [{
+      index: 0, type: 'batch', action: 'draw', depth: 0, size: 6,
+      textures: [{ label: 'hero.png', width: 64, height: 64, pixelWidth: 128, pixelHeight: 128, format: 'rgba8unorm' }],
+    }],
+    drawOrder: [{ pipe: 'batch', drawCalls: 2, time: 0.5 }],
+    memory: { usedJSHeapSize: 45, totalJSHeapSize: 60, jsHeapSizeLimit: 4096 },
+    canvas: { width: 800, height: 600, resolution: 2 },
+    ...props,
+  };
+}
+
+describe('renderCaptureReport', () => {
+  const html = renderCaptureReport(capture(), { url: 'http://localhost/?a=<b>', pixiVersion: '8.5.0', capturedAt: '2026-10-18T09:00:00.000Z' });
+
+  it('shows the memory section in megabytes, as capture reports it', () => {
+    expect(html).toContain('<td>usedJSHeapSize</td><td>45 MB</td>');
+    expect(html).toContain('<td>jsHeapSizeLimit</td><td>4096 MB</td>');
+  });
+
+  it('says when memory is unavailable', () => {
+    expect(renderCaptureReport(capture({ memory: null }))).toContain('performance.memory is Chromium-only');
+  });
+
+  it('summarizes the frame and lists referenced textures', () => {
+    expect(html).toContain('<div class="value">1.23 ms</div><div class="label">Render time</div>');
+    expect(html).toContain('<div class="value">800×600 @2x</div>');
+    expect(html).toContain('<td>hero.png</td>');
+    expect(html).toContain('<span class="hint">1 texture · size 6</span>');
+  });
+
+  it('escapes page data in markup and in the embedded JSON', () => {
+    expect(html).toContain('http://localhost/?a=&lt;b&gt;');
+    expect(html).not.toContain('?a=<b>');
+    const data = html.match(/<script type="application\/json" id="capture-data">(.*?)<\/script>/s)![1];
+    expect(JSON.parse(data).meta.url).toBe('http://localhost/?a=<b>');
+  });
+});
+
+describe('highlightShader', () => {
+  it('marks keywords, types, numbers, calls and comments and escapes the rest', () => {
+    expect(highlightShader('vec4 c = texture(u, v) * 0.5; // a<b')).toBe(
+      '<span class="type">vec4</span> c = <span class="call">texture</span>(u, v) * <span class="number">0.5</span>; <span class="comment">// a&lt;b</span>'
+    );
+    expect(highlightShader('#version 300 es\nuniform float t;')).toBe(
+      '<span class="pre">#version 300 es</span>\n<span class="keyword">uniform</span> <span class="type">float</span> t;'
+    );
+  });
+});
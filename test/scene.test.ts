@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { SceneNode } from '../src/debugger.js';
+import { diffScenes, flattenSceneGraph, globToRegex, isSameSession, queryNodes, type SceneSnapshot } from '../src/scene.js';
+
+function node(name: string, props: Partial<SceneNode> = {}, children: SceneNode[] = []): SceneNode {
+  return {
+    id: props.uid !== undefined ? `node_${props.uid}` : name,
+    name,
+    type: 'Container',
+    visible: true,
+    alpha: 1,
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    pivot: { x: 0, y: 0 },
+    anchor: null,
+    width: 0,
+    height: 0,
+    worldVisible: true,
+    worldAlpha: 1,
+    zIndex: 0,
+    sortableChildren: false,
+    interactive: false,
+    depth: 0,
+    ...props,
+    children,
+  };
+}
+
+function snapshot(root: SceneNode, session?: string): SceneSnapshot {
+  return { version: 1, savedAt: '', url: '', pixiVersion: '8.0.0', session, root };
+}
+
+describe('flattenSceneGraph and queryNodes', () => {
+  const root = node('Stage', {}, [
+    node('hud', {}, [node('score', { type: 'Text' }), node('lives', { type: 'Sprite' })]),
+    node('world'),
+  ]);
+
+  it('lists every node with its label path', () => {
+    expect(flattenSceneGraph(root).map(n => n.path)).toEqual([
+      'Stage', 'Stage/hud', 'Stage/hud/score', 'Stage/hud/lives', 'Stage/world',
+    ]);
+  });
+
+  it('matches names by glob, optionally filtered by type', () => {
+    const flat = flattenSceneGraph(root);
+    expect(queryNodes(flat, 'li*').map(n => n.name)).toEqual(['lives']);
+    // Globs match anywhere in the name, like grep
+    expect(queryNodes(flat, 'or').map(n => n.name)).toEqual(['score', 'world']);
+    expect(queryNodes(flat, '*', { type: 'text' }).map(n => n.name)).toEqual(['score']);
+    expect(queryNodes(flat, '^(hud|world)$', { regex: true }).map(n => n.name)).toEqual(['hud', 'world']);
+  });
+
+  it('escapes regex characters in globs', () => {
+    expect(globToRegex('a.b*c?')).toBe('a\\.b.*c.');
+  });
+});
+
+describe('diffScenes', () => {
+  it('reports added, removed and changed nodes by path', () => {
+    const before = node('Stage', {}, [node('a'), node('b', { alpha: 1 })]);
+    const after = node('Stage', {}, [node('b', { alpha: 0.5 }), node('c', { type: 'Sprite' })]);
+    const diff = diffScenes(before, after, 'path');
+
+    expect(diff.match).toBe('path');
+    expect(diff.summary).toEqual({ added: 1, removed: 1, moved: 0, changed: 1 });
+    expect(diff.added.map(n => n.path)).toEqual(['Stage/c']);
+    expect(diff.removed.map(n => n.path)).toEqual(['Stage/a']);
+    expect(diff.changed[0].changes).toEqual({ alpha: { from: 1, to: 0.5 } });
+  });
+
+  it('ignores float noise below the epsilon', () => {
+    const before = node('Stage', { position: { x: 1, y: 2 } });
+    const after = node('Stage', { position: { x: 1 + 1e-9, y: 2 } });
+    expect(diffScenes(before, after, 'path').summary.changed).toBe(0);
+  });
+
+  it('disambiguates same-named siblings by index', () => {
+    const before = node('Stage', {}, [node('s'), node('s')]);
+    const after = node('Stage', {}, [node('s')]);
+    expect(diffScenes(before, after, 'path').removed.map(n => n.path)).toEqual(['Stage/s[1]']);
+  });
+
+  it('reports a reparented subtree once, at its root, in path mode', () => {
+    const panel = () => node('panel', { type: 'Sprite' }, [node('icon'), node('caption')]);
+    const before = node('Stage', {}, [node('left', {}, [panel()]), node('right')]);
+    const after = node('Stage', {}, [node('left'), node('right', {}, [panel()])]);
+    const diff = diffScenes(before, after, 'path');
+
+    expect(diff.moved).toEqual([
+      { id: 'panel', path: 'Stage/right/panel', type: 'Sprite', fromPath: 'Stage/left/panel' },
+    ]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+  });
+
+  it('matches by uid within one session and detects reparenting', () => {
+    const before = node('Stage', { uid: 0 }, [node('a', { uid: 1 }, [node('x', { uid: 3 })]), node('b', { uid: 2 })]);
+    const after = node('Stage', { uid: 0 }, [node('a', { uid: 1 }), node('b', { uid: 2 }, [node('renamed', { uid: 3 })])]);
+    const diff = diffScenes(before, after, 'auto', { sameSession: true });
+
+    expect(diff.match).toBe('uid');
+    expect(diff.moved.map(n => [n.fromPath, n.path])).toEqual([['Stage/a/x', 'Stage/b/renamed']]);
+    expect(diff.changed[0].changes.name).toEqual({ from: 'x', to: 'renamed' });
+  });
+
+  it('falls back to paths across sessions and without uids', () => {
+    const withUids = node('Stage', { uid: 0 });
+    expect(diffScenes(withUids, withUids, 'auto').match).toBe('path');
+    expect(diffScenes(node('Stage'), node('Stage'), 'auto', { sameSession: true }).match).toBe('path');
+    expect(() => diffScenes(node('Stage'), node('Stage'), 'uid')).toThrow(/uid matching requires/);
+  });
+
+  it('treats snapshots as one session only when both name the same one', () => {
+    const root = node('Stage');
+    expect(isSameSession(snapshot(root, 'a@1'), snapshot(root, 'a@1'))).toBe(true);
+    expect(isSameSession(snapshot(root, 'a@1'), snapshot(root, 'a@2'))).toBe(false);
+    expect(isSameSession(snapshot(root), snapshot(root))).toBe(false);
+  });
+});
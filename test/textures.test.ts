@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { TextureInfo } from '../src/debugger.js';
+import { estimateTextureBytes, labelPrefix, summarizeTextureMemory } from '../src/textures.js';
+
+function texture(index: number, props: Partial<TextureInfo> = {}): TextureInfo {
+  return {
+    index,
+    label: `texture_${index}`,
+    width: 256,
+    height: 256,
+    pixelWidth: 256,
+    pixelHeight: 256,
+    format: 'rgba8unorm',
+    sourceType: 'image',
+    resourceKey: null,
+    mipLevelCount: 1,
+    autoGenerateMipmaps: false,
+    alphaMode: 'premultiply-alpha-on-upload',
+    antialias: false,
+    destroyed: false,
+    isPowerOfTwo: true,
+    autoGarbageCollect: false,
+    ...props,
+  };
+}
+
+describe('estimateTextureBytes', () => {
+  it('uses the format size per pixel', () => {
+    expect(estimateTextureBytes(texture(0))).toBe(256 * 256 * 4);
+    expect(estimateTextureBytes(texture(0, { format: 'r8unorm' }))).toBe(256 * 256);
+    expect(estimateTextureBytes(texture(0, { format: 'rgba16float' }))).toBe(256 * 256 * 8);
+  });
+
+  it('adds every mip level', () => {
+    expect(estimateTextureBytes(texture(0, { pixelWidth: 4, pixelHeight: 4, mipLevelCount: 3 }))).toBe((16 + 4 + 1) * 4);
+  });
+
+  it('counts compressed formats by block', () => {
+    expect(estimateTextureBytes(texture(0, { format: 'bc1-rgba-unorm', pixelWidth: 10, pixelHeight: 10 }))).toBe(3 * 3 * 8);
+    expect(estimateTextureBytes(texture(0, { format: 'bc7-rgba-unorm' }))).toBe(64 * 64 * 16);
+    expect(estimateTextureBytes(texture(0, { format: 'astc-8x8-unorm' }))).toBe(32 * 32 * 16);
+  });
+
+  it('adds a multisampled buffer for antialiased render textures only', () => {
+    const base = 256 * 256 * 4;
+    expect(estimateTextureBytes(texture(0, { antialias: true, sourceType: 'renderTexture' }))).toBe(base * 5);
+    expect(estimateTextureBytes(texture(0, { antialias: true }))).toBe(base);
+  });
+});
+
+describe('labelPrefix', () => {
+  it('uses the directory of paths and URLs', () => {
+    expect(labelPrefix('assets/ui/button.png')).toBe('assets/ui');
+    expect(labelPrefix('https://cdn.example.com/img/bg.png?v=2')).toBe('https://cdn.example.com/img');
+  });
+
+  it('uses the text before the first separator otherwise', () => {
+    expect(labelPrefix('hero_idle_01')).toBe('hero');
+    expect(labelPrefix('TextureSource:5')).toBe('TextureSource');
+  });
+});
+
+describe('summarizeTextureMemory', () => {
+  const report = summarizeTextureMemory([
+    texture(0, { label: 'ui/a.png', resourceKey: 'ui/a.png' }),
+    texture(1, { label: 'ui/a-copy.png', resourceKey: 'ui/a.png', pixelWidth: 128, pixelHeight: 128 }),
+    texture(2, { label: 'rt', sourceType: 'renderTexture', format: 'made-up' }),
+    texture(3, { label: 'gone', destroyed: true }),
+  ]);
+
+  it('leaves destroyed textures out and sorts by size', () => {
+    expect(report.count).toBe(3);
+    expect(report.textures.map(t => t.index)).toEqual([0, 2, 1]);
+    expect(report.totalBytes).toBe(256 * 256 * 4 * 2 + 128 * 128 * 4);
+  });
+
+  it('groups by format, source type and label prefix', () => {
+    expect(report.byFormat.map(g => [g.key, g.count])).toEqual([['rgba8unorm', 2], ['made-up', 1]]);
+    expect(report.bySourceType.map(g => g.key)).toEqual(['image', 'renderTexture']);
+    expect(report.byLabelPrefix[0]).toEqual({ key: 'ui', count: 2, bytes: 256 * 256 * 4 + 128 * 128 * 4 });
+  });
+
+  it('finds duplicate uploads of one resource and the bytes sharing would save', () => {
+    expect(report.duplicates).toEqual([
+      { resourceKey: 'ui/a.png', count: 2, indices: [0, 1], labels: ['ui/a.png', 'ui/a-copy.png'], wastedBytes: 128 * 128 * 4 },
+    ]);
+  });
+
+  it('lists formats without a known size', () => {
+    expect(report.unknownFormats).toEqual(['made-up']);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameRecording } from '../src/debugger.js';
+import { summarizeRecording, toTraceEvents } from '../src/trace.js';
+
+const recording: FrameRecording = {
+  pipeline: 'v8',
+  startedAt: '2026-10-18T09:00:00.000Z',
+  startTime: 1000,
+  endTime: 1100.4,
+  complete: true,
+  frames: [
+    { index: 0, start: 1000, duration: 4, drawCalls: 3, gpu: null, heapUsed: 2 * 1048576 },
+    { index: 1, start: 1016.5, duration: 10, drawCalls: 5, gpu: { pipelineSwitches: 1, bindGroupChanges: 2, renderPasses: 1 }, heapUsed: null },
+  ],
+  spans: [
+    { frame: 0, pipe: 'batch', start: 1000.5, duration: 2, depth: 0, drawCalls: 3 },
+    { frame: 1, pipe: 'batch', start: 1017, duration: 3, depth: 0, drawCalls: 4, pipelineSwitches: 1 },
+    { frame: 1, pipe: 'graphics', start: 1020, duration: 5, depth: 0, drawCalls: 1 },
+  ],
+  rebuilds: [{ frame: 1, time: 1016.75, instructionSet: 3 }],
+};
+
+describe('toTraceEvents', () => {
+  const trace = toTraceEvents(recording, { url: 'http://localhost' });
+  const named = (name: string) => trace.traceEvents.filter(e => e.name === name);
+
+  it('names the process after the pipeline and keeps metadata', () => {
+    expect(named('process_name')[0].args).toEqual({ name: 'PixiJS (v8)' });
+    expect(trace.displayTimeUnit).toBe('ms');
+    expect(trace.metadata).toEqual({ pipeline: 'v8', startedAt: recording.startedAt, complete: true, url: 'http://localhost' });
+  });
+
+  it('writes frames and spans as complete events in microseconds from the start', () => {
+    expect(named('Frame').map(e => [e.ts, e.dur])).toEqual([[0, 4000], [16500, 10000]]);
+    expect(named('batch').map(e => [e.ph, e.ts, e.dur])).toEqual([['X', 500, 2000], ['X', 17000, 3000]]);
+    expect(named('batch')[1].args).toEqual({ frame: 1, drawCalls: 4, pipelineSwitches: 1 });
+  });
+
+  it('adds counter tracks only where data exists', () => {
+    expect(named('Draw calls')).toHaveLength(2);
+    expect(named('GPU encoder').map(e => e.ts)).toEqual([16500]);
+    expect(named('JS heap').map(e => e.args)).toEqual([{ usedMB: 2 }]);
+  });
+
+  it('marks instruction rebuilds as thread-scoped instants', () => {
+    expect(named('Instruction rebuild')).toEqual([{
+      name: 'Instruction rebuild', cat: 'instructions', ph: 'i', s: 't', ts: 16750, pid: 1, tid: 1,
+      args: { frame: 1, instructionSet: 3 },
+    }]);
+  });
+});
+
+describe('summarizeRecording', () => {
+  it('summarizes frame times, draw calls and pipes by total time', () => {
+    expect(summarizeRecording(recording)).toEqual({
+      frames: 2,
+      complete: true,
+      duration: 100,
+      frameTime: { avg: 7, max: 10, p95: 10 },
+      drawCalls: { avg: 4, max: 5 },
+      rebuilds: 1,
+      pipes: [
+        { pipe: 'batch', time: 5, calls: 2, drawCalls: 7 },
+        { pipe: 'graphics', time: 5, calls: 1, drawCalls: 1 },
+      ],
+    });
+  });
+
+  it('handles an empty recording', () => {
+    const summary = summarizeRecording({ ...recording, frames: [], spans: [], rebuilds: [] });
+    expect(summary.frameTime).toEqual({ avg: 0, max: 0, p95: 0 });
+    expect(summary.drawCalls).toEqual({ avg: 0, max: 0 });
+  });
+});
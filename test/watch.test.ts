@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { NodeSample } from '../src/debugger.js';
+import { formatWatchRow, parseWatchCondition, watchColumns } from '../src/watch.js';
+
+describe('parseWatchCondition', () => {
+  it('parses numbers, booleans and strings', () => {
+    expect(parseWatchCondition('alpha==0')).toEqual({ field: 'alpha', op: '==', value: 0 });
+    expect(parseWatchCondition(' position.x >= .5 ')).toEqual({ field: 'position.x', op: '>=', value: 0.5 });
+    expect(parseWatchCondition('alpha<1e-3')).toEqual({ field: 'alpha', op: '<', value: 0.001 });
+    expect(parseWatchCondition('visible==false')).toEqual({ field: 'visible', op: '==', value: false });
+    expect(parseWatchCondition('label!="42"')).toEqual({ field: 'label', op: '!=', value: '42' });
+    expect(parseWatchCondition('label==hero')).toEqual({ field: 'label', op: '==', value: 'hero' });
+  });
+
+  it('rejects malformed conditions and ordering on non-numbers', () => {
+    expect(() => parseWatchCondition('alpha')).toThrow(/Invalid condition/);
+    expect(() => parseWatchCondition('label>hero')).toThrow(/needs a number/);
+    expect(() => parseWatchCondition('alpha>1.2.3')).toThrow(/needs a number/);
+  });
+});
+
+describe('watch table', () => {
+  const sample: NodeSample = {
+    frame: 7,
+    time: 0,
+    id: 'node_1',
+    values: { alpha: 0.123456, position: { x: 10, y: 20.5 } },
+  };
+
+  it('splits points into one column per axis', () => {
+    expect(watchColumns(['alpha', 'position'], sample)).toEqual(['frame', 'alpha', 'position.x', 'position.y']);
+  });
+
+  it('prints a header and right-aligned, rounded rows', () => {
+    const columns = watchColumns(['alpha', 'position'], sample);
+    expect(formatWatchRow(columns, null, 6)).toBe(' frame  alpha position.x position.y');
+    expect(formatWatchRow(columns, sample, 6)).toBe('     7  0.123     10   20.5');
+  });
+});